@@ -1,5 +1,6 @@
 import { CONFIG } from './config';
-import type { SoundFiles } from './types';
+import type { EventBus } from './events';
+import { TSpin, type GameEvents, type SoundFiles } from './types';
 
 import countdown from '@/assets/sounds/countdown.mp3';
 import double from '@/assets/sounds/double.mp3';
@@ -23,8 +24,18 @@ import tSpinMini from '@/assets/sounds/tSpinMini.mp3';
 
 export class AudioPlayer {
     soundFiles: SoundFiles;
+    // Used to silence the sounds, for example while fast-forwarding a replay.
+    muted: boolean;
+
+    constructor(enabled: boolean = true) {
+        this.soundFiles = {};
+        this.muted = !enabled;
+
+        // Headless games do not need any sounds, and might not even have a browser to play them in.
+        if (!enabled) {
+            return;
+        }
 
-    constructor() {
         const soundImports = [
             {
                 name: 'countdown',
@@ -59,6 +70,10 @@ export class AudioPlayer {
                 name: 'garbage',
                 sound: garbage
             },
+            {
+                name: 'finesseFault',
+                sound: garbage
+            },
             {
                 name: 'hardDrop',
                 sound: hardDrop
@@ -105,19 +120,62 @@ export class AudioPlayer {
             }
         ];
 
-        this.soundFiles = {};
-
         for (let i = 0; i < soundImports.length; i++) {
             this.soundFiles[soundImports[i].name] = new Audio(soundImports[i].sound);
         }
     }
 
+    /**
+     * Plays the matching sounds for the events of a game.
+     * Returns a function to stop listening.
+     */
+    listen(events: EventBus<GameEvents>): () => void {
+        const unsubscribers = [
+            events.on('start', () => this.playSound('gameStart')),
+            events.on('pause', (e) => this.playSound(e.paused ? 'gamePause' : 'gameUnpause')),
+            events.on('move', () => this.playSound('move')),
+            events.on('rotate', () => this.playSound('rotate')),
+            events.on('hold', () => this.playSound('holdPiece')),
+            events.on('garbage', () => this.playSound('garbage')),
+            events.on('pieceLocked', (e) => {
+                this.playSound(e.hardDrop ? 'hardDrop' : 'lock');
+
+                // The line clear sound plays right away, not after the line clear delay.
+                if (e.lines > 0) {
+                    this.playSound(`lineclear-${e.lines}`);
+                }
+            }),
+            events.on('lineClear', (e) => {
+                if (e.tSpin === TSpin.Mini) {
+                    this.playSound('tSpinMini');
+                } else if (e.tSpin === TSpin.Full) {
+                    this.playSound('tSpinFull');
+                }
+            }),
+            events.on('levelUp', () => this.playSound('levelUp')),
+            events.on('finesseFault', () => {
+                if (CONFIG.FINESSE_FAULT_SOUND.value) {
+                    this.playSound('finesseFault');
+                }
+            }),
+            events.on('topOut', () => this.playSound('gameOver')),
+            events.on('failed', () => this.playSound('gameOver')),
+            events.on('finished', () => this.playSound('gameFinished'))
+        ];
+
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }
+
     /**
      * Plays a sound for a specific action.
      */
     playSound = (action: string): void => {
         const sound = this.soundFiles[action];
 
+        if (this.muted || !sound) {
+            return;
+        }
+
         const cloneSound = sound.cloneNode() as HTMLAudioElement;
 
         cloneSound.volume = CONFIG.VOLUME.value;
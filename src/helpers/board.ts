@@ -1,40 +1,48 @@
 import type { Piece } from './pieces';
+import { Random } from './rng';
+
+/**
+ * The usual size of the board, most modes are played on it.
+ */
+export const DEFAULT_BOARD_WIDTH = 10;
+export const DEFAULT_BOARD_HEIGHT = 22;
+
+/**
+ * The block of garbage lines, kept apart from the greyed out blocks (8) of the COLORED_BOARD option,
+ * so that garbage can always be told apart from the blocks of the player.
+ */
+export const GARBAGE_BLOCK = 10;
 
 export class Board {
     GameBoard: number[][];
 
-    constructor(board: number[][] | null = null) {
+    constructor(
+        board: number[][] | null = null,
+        width: number = DEFAULT_BOARD_WIDTH,
+        height: number = DEFAULT_BOARD_HEIGHT
+    ) {
         if (board !== null) {
             this.GameBoard = board;
             return;
         }
 
         // The board is usually 10 blocks wide,
-        // and 16-24 blocks high. Our board is 22 blocks high.
-        this.GameBoard = [
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
-        ];
+        // and 16-24 blocks high. Our board is 22 blocks high by default.
+        this.GameBoard = [];
+        for (let i = 0; i < height; i++) {
+            this.GameBoard.push(new Array(width).fill(0));
+        }
+    }
+
+    /**
+     * The width and height are taken from the board itself, so they are always correct.
+     */
+    get width(): number {
+        return this.GameBoard[0].length;
+    }
+
+    get height(): number {
+        return this.GameBoard.length;
     }
 
     /**
@@ -58,11 +66,48 @@ export class Board {
      */
     deleteLine = (line: number): void => {
         this.GameBoard.splice(line, 1);
-        this.GameBoard.unshift([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+        this.GameBoard.unshift(new Array(this.width).fill(0));
+    };
+
+    /**
+     * Returns the amount of lines with garbage in them.
+     * Garbage only ever gets inserted at the bottom, so these are always the lowest lines.
+     */
+    getGarbageLineCount = (): number => {
+        return this.GameBoard.filter((row) => row.includes(GARBAGE_BLOCK)).length;
     };
 
-    insertGarbageLines = (amount: number, currentPiece: Piece): void => {
-        const pieceBlocks = currentPiece.getCoordinates();
+    /**
+     * Inserts lines of garbage at the bottom of the board, each with one empty space.
+     * The position of the empty space comes from the given random generator,
+     * so that seeded games always get the same garbage.
+     * Without a current piece (for example between two turns) only the lines get inserted.
+     */
+    insertGarbageLines = (
+        amount: number,
+        currentPiece: Piece | null,
+        random: Random = new Random()
+    ): void => {
+        const lines = [];
+
+        for (let i = 0; i < amount; i++) {
+            // We create and shuffle a garbage line with one empty space.
+            const garbageLine = new Array(this.width).fill(GARBAGE_BLOCK);
+            garbageLine[this.width - 1] = 0;
+
+            random.shuffle(garbageLine);
+            lines.push(garbageLine);
+        }
+
+        this.insertLines(lines, currentPiece);
+    };
+
+    /**
+     * Inserts the given lines at the bottom of the board, the last one ends up at the very bottom.
+     * The current piece (if there is one) gets pushed up along with the board.
+     */
+    insertLines = (lines: number[][], currentPiece: Piece | null): void => {
+        const pieceBlocks = currentPiece ? currentPiece.getCoordinates() : [];
 
         // First we completely despawn the current piece.
         for (let i = 0; i < pieceBlocks.length; i++) {
@@ -70,29 +115,19 @@ export class Board {
             this.GameBoard[coords[0]][coords[1]] = 0;
         }
 
-        for (let i = 0; i < amount; i++) {
-            // Then we create and shuffle a garbage line with one empty space.
-            const garbageLine = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
-
-            // From: https://stackoverflow.com/questions/6274339/how-can-i-shuffle-an-array
-            const shuffle = (a: Array<any>) => {
-                for (let i = a.length - 1; i > 0; i--) {
-                    const j = Math.floor(Math.random() * (i + 1));
-                    [a[i], a[j]] = [a[j], a[i]];
-                }
-                return a;
-            };
-
-            shuffle(garbageLine);
-
-            // Then we insert it at the bottom of the board,
+        for (let i = 0; i < lines.length; i++) {
+            // Then we insert the lines at the bottom of the board,
             // and remove the first row of the board to compensate.
-            this.GameBoard.push(garbageLine);
+            this.GameBoard.push(lines[i].slice());
             this.GameBoard.shift();
         }
 
+        if (!currentPiece) {
+            return;
+        }
+
         // We have to move the piece up once for each line spawned.
-        currentPiece.offset[0] -= amount;
+        currentPiece.offset[0] -= lines.length;
 
         if (currentPiece.offset[0] < 0) {
             currentPiece.offset[0] = 0;
@@ -0,0 +1,200 @@
+import { findBestMove, type BotMove, type BotRequest } from './botSearch';
+import type { Game } from './game';
+import { Random } from './rng';
+
+/**
+ * The difficulty levels of the bot.
+ */
+export enum BotDifficulty {
+    Easy,
+    Medium,
+    Hard,
+    Expert
+}
+
+/**
+ * How fast the bot plays, and how often it does not take the best placement.
+ */
+export interface BotSettings {
+    name: string;
+    piecesPerSecond: number;
+    mistakeRate: number;
+}
+
+/**
+ * The settings of every difficulty, in the order of the BotDifficulty enum.
+ */
+export const BOT_DIFFICULTIES: BotSettings[] = [
+    { name: 'EASY', piecesPerSecond: 0.75, mistakeRate: 0.25 },
+    { name: 'MEDIUM', piecesPerSecond: 1.5, mistakeRate: 0.1 },
+    { name: 'HARD', piecesPerSecond: 2.5, mistakeRate: 0.03 },
+    { name: 'EXPERT', piecesPerSecond: 4, mistakeRate: 0 }
+];
+
+/**
+ * Gets the current state of a game, in the form the placement search needs it.
+ */
+export const getBotRequest = (
+    game: Game,
+    mistake: number | null = null,
+    lookahead: boolean = false
+): BotRequest => {
+    const board = game.board.GameBoard.map((row) => row.slice());
+    const coords = game.currentPiece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board[coords[i][0]][coords[i][1]] = 0;
+    }
+
+    return {
+        board: board,
+        current: {
+            name: game.currentPiece.name,
+            rotation: game.currentPiece.currentRotation,
+            offset: game.currentPiece.offset.slice()
+        },
+        hold: game.holdPiece ? game.holdPiece.name : null,
+        next: game.nextPieces.map((p) => p.name),
+        canHold: game.canHold,
+        mistake: mistake,
+        lookahead: lookahead,
+        rotationSystem: game.rotationSystem,
+        pieceSet: game.pieceSetDefinition
+    };
+};
+
+/**
+ * Plays a game on its own.
+ * The placement search runs in a web worker if possible, so that it never stalls the game loop.
+ * Without web workers (for example in tests) it runs right away instead.
+ */
+export class Bot {
+    game: Game;
+    settings: BotSettings;
+    random: Random;
+
+    worker: Worker | null;
+    // If the bot is waiting for the worker to answer.
+    thinking: boolean;
+    // The move the bot decided on, with the position the piece was in when it was planned.
+    plannedMove: BotMove | null;
+    plannedFor: string;
+
+    // The ticks until the bot places its next piece.
+    cooldown: number;
+
+    constructor(
+        game: Game,
+        difficulty: BotDifficulty = BotDifficulty.Medium,
+        seed: number = game.seed,
+        useWorker: boolean = typeof Worker !== 'undefined'
+    ) {
+        this.game = game;
+        // The bot does not need any hints, and searching for them would only slow the game down.
+        game.showHint = false;
+        game.hint = null;
+        this.settings = BOT_DIFFICULTIES[difficulty];
+        this.random = new Random(seed);
+
+        this.worker = null;
+        this.thinking = false;
+        this.plannedMove = null;
+        this.plannedFor = '';
+
+        this.cooldown = this.getPieceDelay();
+
+        if (useWorker) {
+            this.worker = new Worker(new URL('./bot.worker.ts', import.meta.url), {
+                type: 'module'
+            });
+            this.worker.onmessage = (e: MessageEvent<BotMove | null>) => {
+                this.thinking = false;
+                this.plannedMove = e.data;
+            };
+        }
+    }
+
+    /**
+     * Gets called every tick, after the game advanced.
+     */
+    update(): void {
+        const game = this.game;
+
+        if (game.over || game.finished || game.paused || game.frozen) {
+            return;
+        }
+
+        if (this.cooldown > 0) {
+            this.cooldown--;
+            return;
+        }
+
+        if (!this.plannedMove) {
+            if (!this.thinking) {
+                this.think();
+            }
+
+            // The worker answers later on, without one the move is ready right away.
+            if (!this.plannedMove) {
+                return;
+            }
+        }
+
+        // If gravity moved the piece in the meantime, the planned actions do not fit anymore.
+        if (this.plannedFor !== this.getPosition()) {
+            this.plannedMove = null;
+            return;
+        }
+
+        const actions = this.plannedMove.actions;
+        this.plannedMove = null;
+
+        for (let i = 0; i < actions.length; i++) {
+            game.performAction(actions[i]);
+        }
+
+        this.cooldown = this.getPieceDelay();
+    }
+
+    /**
+     * Starts the search for the next move.
+     */
+    think(): void {
+        const mistake = this.random.next() < this.settings.mistakeRate ? this.random.next() : null;
+        const request = getBotRequest(this.game, mistake);
+
+        this.plannedFor = this.getPosition();
+
+        if (this.worker) {
+            this.thinking = true;
+            this.worker.postMessage(request);
+        } else {
+            this.plannedMove = findBestMove(request);
+        }
+    }
+
+    /**
+     * Stops the bot, and the worker with it.
+     */
+    stop(): void {
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    /**
+     * The ticks between two placements, depending on the pieces per second.
+     */
+    getPieceDelay(): number {
+        return Math.round(60 / this.settings.piecesPerSecond);
+    }
+
+    /**
+     * A key for the current piece and its position.
+     */
+    getPosition(): string {
+        const piece = this.game.currentPiece;
+
+        return `${this.game.pieceCountList.join()},${piece.name},${
+            piece.currentRotation
+        },${piece.offset.join()}`;
+    }
+}
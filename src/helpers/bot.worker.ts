@@ -0,0 +1,6 @@
+import { findBestMove, type BotRequest } from './botSearch';
+
+// The placement search can take a while, so it runs in its own thread.
+onmessage = (e: MessageEvent<BotRequest>) => {
+    postMessage(findBestMove(e.data));
+};
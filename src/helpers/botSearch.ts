@@ -0,0 +1,476 @@
+import { Board } from './board';
+import { getPieceSet } from './pieceData';
+import type { Piece } from './pieces';
+import { PIECE_SETS, type PieceSetDefinition } from './pieceSets';
+import { RotationSystemType } from './rotation';
+import { Action } from './types';
+
+/**
+ * Everything the bot needs to know to plan its next move.
+ * This is plain data, so that it can be sent to a web worker.
+ */
+export interface BotRequest {
+    // The board without the current piece.
+    board: number[][];
+    current: { name: string; rotation: number; offset: number[] };
+    hold: string | null;
+    // The names of the next pieces, in order.
+    next: string[];
+    canHold: boolean;
+    // If set, the bot makes a mistake and picks a worse placement, chosen by this number between 0 and 1.
+    mistake: number | null;
+    // If the best moves also get rated by how well the following piece fits afterwards.
+    lookahead: boolean;
+    // The rotation system of the game, the search has to use the same kicks as the game.
+    rotationSystem: RotationSystemType;
+    pieceSet: PieceSetDefinition;
+}
+
+/**
+ * The move the bot decided on, as the actions to get there.
+ */
+export interface BotMove {
+    actions: Action[];
+    score: number;
+    // The piece (which might come out of hold) in the position it gets dropped in.
+    piece: { name: string; rotation: number; offset: number[] };
+}
+
+/**
+ * A position the piece can end up in, with the actions that lead there.
+ */
+export interface Placement {
+    rotation: number;
+    offset: number[];
+    actions: Action[];
+    // The board with the locked piece, before any lines are cleared.
+    board: number[][];
+    // If the last action was a rotation into a spot with three occupied corners.
+    tSpin: boolean;
+}
+
+/**
+ * The weights of the board heuristic, loosely based on: https://codemyroad.wordpress.com/2013/04/14/tetris-ai-the-near-perfect-player/
+ */
+const WEIGHTS = {
+    height: -0.51,
+    lines: 0.76,
+    holes: -0.36,
+    bumpiness: -0.18,
+    tSpinLines: 1.5,
+    tSlots: 0.4,
+    // Every row above the danger height gets punished extra hard.
+    danger: -2
+};
+
+const DANGER_HEIGHT = 14;
+
+// The amount of best moves that get looked at again with the following piece, the rest is too far off anyways.
+const LOOKAHEAD_CANDIDATES = 5;
+
+/**
+ * The moves the placement search tries from every position.
+ */
+const SEARCH_ACTIONS = [
+    Action.MoveLeft,
+    Action.MoveRight,
+    Action.RotateCW,
+    Action.RotateCCW,
+    Action.Rotate180,
+    Action.SoftDrop
+];
+
+/**
+ * Gets a new instance of a piece by its name.
+ */
+const getPiece = (
+    name: string,
+    rotationSystem: RotationSystemType,
+    pieceSet: PieceSetDefinition
+): Piece => {
+    const piece = getPieceSet(rotationSystem, pieceSet).find((p) => p.name === name);
+
+    if (!piece) {
+        throw new Error(`UNKNOWN PIECE ${name}`);
+    }
+
+    return piece.clone();
+};
+
+/**
+ * Checks if a piece fits on the board, without overlapping any blocks.
+ */
+const fits = (board: number[][], piece: Piece): boolean => {
+    return piece
+        .getCoordinates()
+        .every(
+            (c) =>
+                c[0] >= 0 &&
+                c[0] < board.length &&
+                c[1] >= 0 &&
+                c[1] < board[0].length &&
+                board[c[0]][c[1]] === 0
+        );
+};
+
+/**
+ * Tries a single action on the piece, the board does not change.
+ * Returns if the action succeeded.
+ */
+const tryAction = (board: Board, piece: Piece, action: Action): boolean => {
+    // The piece methods expect the piece to be drawn on the board.
+    let coords = piece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board.GameBoard[coords[i][0]][coords[i][1]] = piece.color;
+    }
+
+    let success = false;
+
+    switch (action) {
+        case Action.MoveLeft:
+            success = piece.moveLeft(board);
+            break;
+        case Action.MoveRight:
+            success = piece.moveRight(board);
+            break;
+        case Action.SoftDrop:
+            success = piece.moveDown(board);
+            break;
+        case Action.RotateCW:
+        case Action.RotateCCW:
+        case Action.Rotate180:
+            success = piece.rotate(board, action !== Action.RotateCCW, action === Action.Rotate180);
+            break;
+        default:
+            break;
+    }
+
+    // And then we remove the piece again, wherever it ended up.
+    coords = piece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board.GameBoard[coords[i][0]][coords[i][1]] = 0;
+    }
+
+    return success;
+};
+
+/**
+ * Checks if a T piece is in a T-Spin position, meaning three of its corners are occupied.
+ */
+const isTSpinPosition = (board: number[][], piece: Piece): boolean => {
+    const corners = [
+        [0, 0],
+        [0, 2],
+        [2, 0],
+        [2, 2]
+    ];
+
+    let occupied = 0;
+    for (let i = 0; i < corners.length; i++) {
+        const row = piece.offset[0] + corners[i][0];
+        const col = piece.offset[1] + corners[i][1];
+
+        // The walls and the floor count as occupied.
+        if (row >= board.length || col < 0 || col >= board[0].length || board[row][col] !== 0) {
+            occupied++;
+        }
+    }
+
+    return occupied >= 3;
+};
+
+/**
+ * Finds every position a piece can lock in, starting from the given position.
+ * This is a breadth-first search over all moves and rotations (with the usual wall kicks),
+ * so the actions to get to every placement are as short as possible.
+ */
+export const findPlacements = (
+    board: number[][],
+    pieceName: string,
+    rotation: number = 0,
+    offset: number[] | null = null,
+    rotationSystem: RotationSystemType = RotationSystemType.SRS,
+    pieceSet: PieceSetDefinition = PIECE_SETS[0]
+): Placement[] => {
+    const workBoard = new Board(board.map((row) => row.slice()));
+    const start = getPiece(pieceName, rotationSystem, pieceSet);
+    // Without a position, the piece starts where it spawns.
+    start.reset(board[0].length);
+    start.currentRotation = rotation;
+    if (offset !== null) {
+        start.offset = offset.slice();
+    }
+
+    if (!fits(workBoard.GameBoard, start)) {
+        return [];
+    }
+
+    const placements: Placement[] = [];
+    const visited = new Set<string>();
+    const queue = [{ rotation: rotation, offset: start.offset.slice(), actions: [] as Action[] }];
+    visited.add(`${rotation},${start.offset[0]},${start.offset[1]}`);
+
+    const piece = start.clone();
+
+    while (queue.length > 0) {
+        const state = queue.shift()!;
+
+        for (let i = 0; i < SEARCH_ACTIONS.length; i++) {
+            piece.currentRotation = state.rotation;
+            piece.offset = state.offset.slice();
+
+            if (!tryAction(workBoard, piece, SEARCH_ACTIONS[i])) {
+                continue;
+            }
+
+            const key = `${piece.currentRotation},${piece.offset[0]},${piece.offset[1]}`;
+            if (visited.has(key)) {
+                continue;
+            }
+
+            visited.add(key);
+            queue.push({
+                rotation: piece.currentRotation,
+                offset: piece.offset.slice(),
+                actions: [...state.actions, SEARCH_ACTIONS[i]]
+            });
+        }
+
+        // If the piece cannot move down any further, it can lock here.
+        piece.currentRotation = state.rotation;
+        piece.offset = state.offset.slice();
+
+        if (tryAction(workBoard, piece, Action.SoftDrop)) {
+            continue;
+        }
+
+        const lockedBoard = board.map((row) => row.slice());
+        const coords = piece.getCoordinates();
+        for (let i = 0; i < coords.length; i++) {
+            lockedBoard[coords[i][0]][coords[i][1]] = piece.color;
+        }
+
+        const lastAction = state.actions[state.actions.length - 1];
+
+        placements.push({
+            rotation: state.rotation,
+            offset: state.offset.slice(),
+            actions: [...state.actions, Action.HardDrop],
+            board: lockedBoard,
+            tSpin:
+                pieceName === 'T' &&
+                (lastAction === Action.RotateCW ||
+                    lastAction === Action.RotateCCW ||
+                    lastAction === Action.Rotate180) &&
+                isTSpinPosition(board, piece)
+        });
+    }
+
+    return placements;
+};
+
+/**
+ * Counts the spots on the board where a T piece could spin into, for a T-Spin Double.
+ */
+export const countTSlots = (board: number[][]): number => {
+    let slots = 0;
+
+    for (let row = 1; row < board.length - 1; row++) {
+        for (let col = 1; col < board[row].length - 1; col++) {
+            // The T piece needs an empty row of three, with a single hole below the middle.
+            if (
+                board[row][col - 1] !== 0 ||
+                board[row][col] !== 0 ||
+                board[row][col + 1] !== 0 ||
+                board[row + 1][col] !== 0 ||
+                board[row + 1][col - 1] === 0 ||
+                board[row + 1][col + 1] === 0
+            ) {
+                continue;
+            }
+
+            // And one overhang above the row, so that it has to spin in.
+            if (board[row - 1][col - 1] !== 0 || board[row - 1][col + 1] !== 0) {
+                slots++;
+            }
+        }
+    }
+
+    return slots;
+};
+
+/**
+ * Rates a board after a placement, higher is better.
+ */
+export const evaluateBoard = (board: number[][], linesCleared: number, tSpin: boolean): number => {
+    const heights: number[] = [];
+    let holes = 0;
+
+    for (let col = 0; col < board[0].length; col++) {
+        let height = 0;
+
+        for (let row = 0; row < board.length; row++) {
+            if (board[row][col] !== 0) {
+                if (height === 0) {
+                    height = board.length - row;
+                }
+            } else if (height !== 0) {
+                // Every empty block below the top of the column is a hole.
+                holes++;
+            }
+        }
+
+        heights.push(height);
+    }
+
+    let bumpiness = 0;
+    for (let i = 0; i < heights.length - 1; i++) {
+        bumpiness += Math.abs(heights[i] - heights[i + 1]);
+    }
+
+    const aggregateHeight = heights.reduce((a, b) => a + b, 0);
+    const maxHeight = Math.max(...heights);
+
+    return (
+        WEIGHTS.height * aggregateHeight +
+        WEIGHTS.lines * linesCleared +
+        WEIGHTS.holes * holes +
+        WEIGHTS.bumpiness * bumpiness +
+        (tSpin ? WEIGHTS.tSpinLines * linesCleared : 0) +
+        WEIGHTS.tSlots * Math.min(countTSlots(board), 2) +
+        WEIGHTS.danger * Math.max(0, maxHeight - DANGER_HEIGHT)
+    );
+};
+
+/**
+ * Removes the full lines from a board, returns the amount of cleared lines.
+ */
+const clearLines = (board: number[][]): number => {
+    let cleared = 0;
+
+    for (let row = 0; row < board.length; row++) {
+        if (board[row].every((block) => block !== 0)) {
+            board.splice(row, 1);
+            board.unshift(new Array(board[0].length).fill(0));
+            cleared++;
+        }
+    }
+
+    return cleared;
+};
+
+/**
+ * Gets the rating of the best placement of a freshly spawned piece.
+ * If the piece does not fit anywhere, the board is as good as lost.
+ */
+const getBestScore = (
+    board: number[][],
+    pieceName: string,
+    rotationSystem: RotationSystemType,
+    pieceSet: PieceSetDefinition
+): number => {
+    const placements = findPlacements(board, pieceName, 0, null, rotationSystem, pieceSet);
+    let best = -Infinity;
+
+    for (let i = 0; i < placements.length; i++) {
+        const lines = clearLines(placements[i].board);
+        best = Math.max(best, evaluateBoard(placements[i].board, lines, placements[i].tSpin));
+    }
+
+    return best;
+};
+
+/**
+ * Finds the best move for the current piece, or the piece that would come out of hold.
+ * Returns null if there is no possible move at all.
+ */
+export const findBestMove = (request: BotRequest): BotMove | null => {
+    const moves: BotMove[] = [];
+    // The boards after every move, with their lines cleared.
+    const boards = new Map<BotMove, number[][]>();
+
+    const options = [
+        {
+            name: request.current.name,
+            rotation: request.current.rotation,
+            offset: request.current.offset as number[] | null,
+            prefix: [] as Action[]
+        }
+    ];
+
+    // Holding spawns the held piece (or the next one) at the top.
+    const holdPiece = request.hold ?? request.next[0] ?? null;
+    if (request.canHold && holdPiece !== null && holdPiece !== request.current.name) {
+        options.push({
+            name: holdPiece,
+            rotation: 0,
+            offset: null,
+            prefix: [Action.Hold]
+        });
+    }
+
+    for (let i = 0; i < options.length; i++) {
+        const placements = findPlacements(
+            request.board,
+            options[i].name,
+            options[i].rotation,
+            options[i].offset,
+            request.rotationSystem,
+            request.pieceSet
+        );
+
+        for (let j = 0; j < placements.length; j++) {
+            const board = placements[j].board;
+            const lines = clearLines(board);
+
+            const move: BotMove = {
+                actions: [...options[i].prefix, ...placements[j].actions],
+                score: evaluateBoard(board, lines, placements[j].tSpin),
+                piece: {
+                    name: options[i].name,
+                    rotation: placements[j].rotation,
+                    offset: placements[j].offset
+                }
+            };
+
+            moves.push(move);
+            boards.set(move, board);
+        }
+    }
+
+    if (moves.length === 0) {
+        return null;
+    }
+
+    moves.sort((a, b) => b.score - a.score);
+
+    if (request.lookahead) {
+        const best = moves.slice(0, LOOKAHEAD_CANDIDATES);
+
+        for (let i = 0; i < best.length; i++) {
+            // Holding into an empty hold uses up the next piece as well.
+            const usedNext = best[i].actions[0] === Action.Hold && request.hold === null;
+            const following = request.next[usedNext ? 1 : 0];
+
+            if (following !== undefined) {
+                best[i].score += getBestScore(
+                    boards.get(best[i])!,
+                    following,
+                    request.rotationSystem,
+                    request.pieceSet
+                );
+            }
+        }
+
+        best.sort((a, b) => b.score - a.score);
+        moves.splice(0, best.length, ...best);
+    }
+
+    // A mistake picks one of the next best moves instead.
+    if (request.mistake !== null && moves.length > 1) {
+        const candidates = Math.min(moves.length - 1, 8);
+        return moves[1 + Math.floor(request.mistake * candidates)];
+    }
+
+    return moves[0];
+};
@@ -2,6 +2,11 @@
  * Gets a config setting from local storage.
  */
 export const getConfig = (config: string, defaultValue: string): string => {
+    // Outside of a browser (like a headless game in Node) there is no local storage.
+    if (typeof localStorage === 'undefined') {
+        return defaultValue;
+    }
+
     const c = localStorage.getItem(`config-${config}`);
     if (c === null) {
         return defaultValue;
@@ -96,17 +101,18 @@ export const CONFIG = {
     },
 
     /**
-     * If you want to use a modern piece generator,
-     * which makes sure you see each piece equally often.
+     * The algorithm that decides the order of the pieces, see RandomizerType.
+     * The default is the 7-bag of modern games, which makes sure you see each piece equally often.
+     * This replaced the old modern piece RNG option, which is still used if it was turned off.
      *
-     * If disabled, the piece is truly randonly generated.
-     *
-     * See more information here: https://tetris.fandom.com/wiki/Random_Generator
+     * See more information here: https://tetris.wiki/Random_Generator
      */
-    MODERN_PIECE_RNG: {
-        name: 'MODERN_PIECE_RNG',
-        defaultValue: 'true',
-        value: getConfig('MODERN_PIECE_RNG', 'true') === 'true'
+    RANDOMIZER: {
+        name: 'RANDOMIZER',
+        defaultValue: '1',
+        value: Number(
+            getConfig('RANDOMIZER', getConfig('MODERN_PIECE_RNG', 'true') === 'true' ? '1' : '0')
+        )
     },
 
     /**
@@ -117,7 +123,7 @@ export const CONFIG = {
      * This in turn means that you cannot go more than X * 12 without seeing a specific piece,
      * and you cannot get more a piece more than X * 2 in a row.
      *
-     * This only has an effect if you have modern piece RNG enabled.
+     * This only has an effect with one of the bag randomizers.
      *
      * See more information here: https://tetris.fandom.com/wiki/Random_Generator
      */
@@ -132,7 +138,7 @@ export const CONFIG = {
      * These pieces being the S and Z pieces, but an O piece can generate an overhang too if you draw a S/Z after.
      * Meaning the first piece will always be either L, J, I, or T.
      *
-     * This only has an effect if you have modern piece RNG enabled.
+     * This only has an effect with one of the bag randomizers, the TGM randomizer always does this.
      */
     FIRST_PIECE_NO_OVERHANG: {
         name: 'FIRST_PIECE_NO_OVERHANG',
@@ -140,6 +146,82 @@ export const CONFIG = {
         value: getConfig('FIRST_PIECE_NO_OVERHANG', 'true') === 'true'
     },
 
+    /**
+     * The rotation system, which decides the rotation states, wall kicks and spawn positions of the pieces.
+     * 0 is SRS (modern games), 1 is ARS (Tetris The Grand Master) and 2 is Classic (NES).
+     *
+     * See more information here: https://tetris.wiki/Category:Rotation_systems
+     */
+    ROTATION_SYSTEM: {
+        name: 'ROTATION_SYSTEM',
+        defaultValue: '0',
+        value: Number(getConfig('ROTATION_SYSTEM', '0'))
+    },
+
+    /**
+     * The set of pieces the game is played with.
+     * 0 is the usual seven pieces, 1 are pentominoes, 2 are trominoes and 3 is the custom set below.
+     */
+    PIECE_SET: {
+        name: 'PIECE_SET',
+        defaultValue: '0',
+        value: Number(getConfig('PIECE_SET', '0'))
+    },
+
+    /**
+     * A user defined piece set in JSON, see parsePieceSet() for the format.
+     */
+    CUSTOM_PIECE_SET: {
+        name: 'CUSTOM_PIECE_SET',
+        defaultValue: '',
+        value: getConfig('CUSTOM_PIECE_SET', '')
+    },
+
+    /**
+     * If 180° rotations can kick off walls and blocks.
+     * If disabled, a 180° rotation only succeeds if the piece fits right where it is.
+     */
+    KICKS_180: {
+        name: 'KICKS_180',
+        defaultValue: 'true',
+        value: getConfig('KICKS_180', 'true') === 'true'
+    },
+
+    /**
+     * How line clears and drops are scored, see ScoringType.
+     * 0 is the guideline of modern games, 1 is the NES version, 2 is TGM and 3 counts the garbage lines sent.
+     * High scores are kept separately for every ruleset.
+     *
+     * See more information here: https://tetris.wiki/Scoring
+     */
+    SCORING: {
+        name: 'SCORING',
+        defaultValue: '0',
+        value: Number(getConfig('SCORING', '0'))
+    },
+
+    /**
+     * How fast the pieces fall on every level, see GravityCurveType.
+     * 0 is the NES version, 1 is the guideline of modern games, 2 is TGM and 3 is the custom table below.
+     * The faster curves go up to 20G, where pieces fall all the way down the moment they appear.
+     *
+     * See more information here: https://tetris.wiki/Drop#Gravity
+     */
+    GRAVITY_CURVE: {
+        name: 'GRAVITY_CURVE',
+        defaultValue: '0',
+        value: Number(getConfig('GRAVITY_CURVE', '0'))
+    },
+
+    /**
+     * A user defined gravity table in JSON, see parseGravityTable() for the format.
+     */
+    CUSTOM_GRAVITY: {
+        name: 'CUSTOM_GRAVITY',
+        defaultValue: '',
+        value: getConfig('CUSTOM_GRAVITY', '')
+    },
+
     /**
      * This is the amount of ticks that a piece will wait before locking when it falls.
      * A tick is 1/60th of a second.
@@ -167,6 +249,75 @@ export const CONFIG = {
         value: Number(getConfig('LOCK_MOVE_RESETS', '15'))
     },
 
+    /**
+     * The width of the board in the single player modes, usually 10.
+     * High scores only get saved on the usual board size.
+     */
+    BOARD_WIDTH: {
+        name: 'BOARD_WIDTH',
+        defaultValue: '10',
+        value: Number(getConfig('BOARD_WIDTH', '10'))
+    },
+
+    /**
+     * The height of the board in the single player modes, including the rows pieces spawn in.
+     * Usually 22.
+     */
+    BOARD_HEIGHT: {
+        name: 'BOARD_HEIGHT',
+        defaultValue: '22',
+        value: Number(getConfig('BOARD_HEIGHT', '22'))
+    },
+
+    /**
+     * The garbage lines to clear in a cheese race.
+     * High scores only get saved with the default cheese race settings.
+     */
+    CHEESE_LINES: {
+        name: 'CHEESE_LINES',
+        defaultValue: '10',
+        value: Number(getConfig('CHEESE_LINES', '10'))
+    },
+
+    /**
+     * The least garbage lines kept on the board during a cheese race, until all of them came up.
+     * 0 puts as many of them on the board as fit, which is all of them unless there are a lot.
+     */
+    CHEESE_MINIMUM_GARBAGE: {
+        name: 'CHEESE_MINIMUM_GARBAGE',
+        defaultValue: '0',
+        value: Number(getConfig('CHEESE_MINIMUM_GARBAGE', '0'))
+    },
+
+    /**
+     * The chance in percent that the hole of a garbage line is in another column than the one above.
+     * 0 is clean garbage where all holes line up, 100 is messy garbage.
+     */
+    GARBAGE_MESSINESS: {
+        name: 'GARBAGE_MESSINESS',
+        defaultValue: '100',
+        value: Number(getConfig('GARBAGE_MESSINESS', '100'))
+    },
+
+    /**
+     * The time until the first garbage line rises in survival, in milliseconds.
+     * High scores only get saved with the default survival settings.
+     */
+    SURVIVAL_INTERVAL: {
+        name: 'SURVIVAL_INTERVAL',
+        defaultValue: '10000',
+        value: Number(getConfig('SURVIVAL_INTERVAL', '10000'))
+    },
+
+    /**
+     * How much shorter the time until the next garbage line gets with every rise in survival, in percent.
+     */
+    SURVIVAL_ACCELERATION: {
+        name: 'SURVIVAL_ACCELERATION',
+        defaultValue: '5',
+        value: Number(getConfig('SURVIVAL_ACCELERATION', '5'))
+    },
+
     /**
      * The initial delay of when DAS kicks in, in milliseconds.
      *
@@ -189,6 +340,36 @@ export const CONFIG = {
         value: Number(getConfig('ARR_SPEED', '33'))
     },
 
+    /**
+     * Shows a second ghost piece at the placement the bot would choose, to learn stacking.
+     * Only available in modes that do not save high scores.
+     */
+    HINT_OVERLAY: {
+        name: 'HINT_OVERLAY',
+        defaultValue: 'false',
+        value: getConfig('HINT_OVERLAY', 'false') === 'true'
+    },
+
+    /**
+     * Plays a sound whenever a piece gets placed with more inputs than needed.
+     *
+     * See more information here: https://tetris.wiki/Finesse
+     */
+    FINESSE_FAULT_SOUND: {
+        name: 'FINESSE_FAULT_SOUND',
+        defaultValue: 'false',
+        value: getConfig('FINESSE_FAULT_SOUND', 'false') === 'true'
+    },
+
+    /**
+     * Restarts the game right away on a finesse fault, for drilling.
+     */
+    RESTART_ON_FINESSE_FAULT: {
+        name: 'RESTART_ON_FINESSE_FAULT',
+        defaultValue: 'false',
+        value: getConfig('RESTART_ON_FINESSE_FAULT', 'false') === 'true'
+    },
+
     BACKGROUND_URL: {
         name: 'BACKGROUND_URL',
         defaultValue: './src/assets/images/background.jpg',
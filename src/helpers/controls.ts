@@ -1,11 +1,14 @@
-import { CONFIG } from './config';
 import type { Game } from './game';
-import { Move } from './types';
+import { Action } from './types';
 
 /**
  * Gets a keybind setting from local storage.
  */
 export const getKeybind = (keybind: string, defaultValue: string): string => {
+    if (typeof localStorage === 'undefined') {
+        return defaultValue;
+    }
+
     const k = localStorage.getItem(`controls-${keybind}`);
     if (k === null) {
         return defaultValue;
@@ -93,11 +96,156 @@ export const CONTROLS = {
         name: 'INSERT_GARBAGE',
         defaultValue: 'F1',
         value: getKeybind('INSERT_GARBAGE', 'F1')
+    },
+    // Starts a game from the board editor over from its setup, at any time.
+    RESET_SETUP: {
+        name: 'RESET_SETUP',
+        defaultValue: 'r',
+        value: getKeybind('RESET_SETUP', 'r')
+    },
+
+    // The keybinds for player 1 in versus games.
+    P1_MOVE_LEFT: {
+        name: 'P1_MOVE_LEFT',
+        defaultValue: 'a',
+        value: getKeybind('P1_MOVE_LEFT', 'a')
+    },
+    P1_MOVE_RIGHT: {
+        name: 'P1_MOVE_RIGHT',
+        defaultValue: 'd',
+        value: getKeybind('P1_MOVE_RIGHT', 'd')
+    },
+    P1_SOFT_DROP: {
+        name: 'P1_SOFT_DROP',
+        defaultValue: 's',
+        value: getKeybind('P1_SOFT_DROP', 's')
+    },
+    P1_HARD_DROP: {
+        name: 'P1_HARD_DROP',
+        defaultValue: 'w',
+        value: getKeybind('P1_HARD_DROP', 'w')
+    },
+    P1_ROTATE_CW: {
+        name: 'P1_ROTATE_CW',
+        defaultValue: 'g',
+        value: getKeybind('P1_ROTATE_CW', 'g')
+    },
+    P1_ROTATE_CCW: {
+        name: 'P1_ROTATE_CCW',
+        defaultValue: 'f',
+        value: getKeybind('P1_ROTATE_CCW', 'f')
+    },
+    P1_ROTATE_180: {
+        name: 'P1_ROTATE_180',
+        defaultValue: 'h',
+        value: getKeybind('P1_ROTATE_180', 'h')
+    },
+    P1_HOLD_PIECE: {
+        name: 'P1_HOLD_PIECE',
+        defaultValue: 'c',
+        value: getKeybind('P1_HOLD_PIECE', 'c')
+    },
+
+    // The keybinds for player 2 in versus games.
+    P2_MOVE_LEFT: {
+        name: 'P2_MOVE_LEFT',
+        defaultValue: 'ArrowLeft',
+        value: getKeybind('P2_MOVE_LEFT', 'ArrowLeft')
+    },
+    P2_MOVE_RIGHT: {
+        name: 'P2_MOVE_RIGHT',
+        defaultValue: 'ArrowRight',
+        value: getKeybind('P2_MOVE_RIGHT', 'ArrowRight')
+    },
+    P2_SOFT_DROP: {
+        name: 'P2_SOFT_DROP',
+        defaultValue: 'ArrowDown',
+        value: getKeybind('P2_SOFT_DROP', 'ArrowDown')
+    },
+    P2_HARD_DROP: {
+        name: 'P2_HARD_DROP',
+        defaultValue: 'ArrowUp',
+        value: getKeybind('P2_HARD_DROP', 'ArrowUp')
+    },
+    P2_ROTATE_CW: {
+        name: 'P2_ROTATE_CW',
+        defaultValue: '2',
+        value: getKeybind('P2_ROTATE_CW', '2')
+    },
+    P2_ROTATE_CCW: {
+        name: 'P2_ROTATE_CCW',
+        defaultValue: '1',
+        value: getKeybind('P2_ROTATE_CCW', '1')
+    },
+    P2_ROTATE_180: {
+        name: 'P2_ROTATE_180',
+        defaultValue: '3',
+        value: getKeybind('P2_ROTATE_180', '3')
+    },
+    P2_HOLD_PIECE: {
+        name: 'P2_HOLD_PIECE',
+        defaultValue: '0',
+        value: getKeybind('P2_HOLD_PIECE', '0')
+    }
+};
+
+/**
+ * The keybinds that can be set for every player, with the action they trigger.
+ */
+export const PLAYER_KEYBINDS = [
+    { name: 'MOVE_LEFT', action: Action.MoveLeft },
+    { name: 'MOVE_RIGHT', action: Action.MoveRight },
+    { name: 'SOFT_DROP', action: Action.SoftDrop },
+    { name: 'HARD_DROP', action: Action.HardDrop },
+    { name: 'ROTATE_CW', action: Action.RotateCW },
+    { name: 'ROTATE_CCW', action: Action.RotateCCW },
+    { name: 'ROTATE_180', action: Action.Rotate180 },
+    { name: 'HOLD_PIECE', action: Action.Hold }
+];
+
+/**
+ * Gets you the game action that is bound to a key, or null if the key is not bound.
+ * In versus games, every player has their own keybinds.
+ */
+export const getKeyAction = (key: string, player: number | null = null): Action | null => {
+    if (player !== null) {
+        for (let i = 0; i < PLAYER_KEYBINDS.length; i++) {
+            const keybind = `P${player}_${PLAYER_KEYBINDS[i].name}` as keyof typeof CONTROLS;
+            if (CONTROLS[keybind].value === key) {
+                return PLAYER_KEYBINDS[i].action;
+            }
+        }
+
+        return null;
+    }
+
+    switch (key) {
+        case CONTROLS.MOVE_LEFT.value:
+            return Action.MoveLeft;
+        case CONTROLS.MOVE_RIGHT.value:
+            return Action.MoveRight;
+        case CONTROLS.SOFT_DROP.value:
+            return Action.SoftDrop;
+        case CONTROLS.HARD_DROP.value:
+            return Action.HardDrop;
+        case CONTROLS.ROTATE_CW.value:
+            return Action.RotateCW;
+        case CONTROLS.ROTATE_CCW.value:
+            return Action.RotateCCW;
+        case CONTROLS.ROTATE_180.value:
+            return Action.Rotate180;
+        case CONTROLS.HOLD_PIECE.value:
+            return Action.Hold;
+        case CONTROLS.INSERT_GARBAGE.value:
+            return Action.InsertGarbage;
+        default:
+            return null;
     }
 };
 
 /**
  * Handles the keyboard inputs.
+ * The game itself takes care of the DAS, we only tell it which actions are held down.
  */
 export const handleInput = (e: KeyboardEvent, game: Game): void => {
     // If the game is over we don't want to listen to any events.
@@ -107,183 +255,17 @@ export const handleInput = (e: KeyboardEvent, game: Game): void => {
 
     // We also don't want to listen to any other events while the game is paused.
     if (e.key === CONTROLS.PAUSE_GAME.value) {
-        if (game.paused) {
-            game.paused = false;
-            game.audioPlayer.playSound('gameUnpause');
-        } else {
-            game.paused = true;
-            game.audioPlayer.playSound('gamePause');
-        }
+        game.performAction(Action.Pause);
     }
 
     if (game.paused) {
         return;
     }
 
-    // When an action successfully completes, we update the lock ticks and the shadow piece coordinates.
-    const update = (): void => {
-        game.lockTicksRemaining = CONFIG.PIECE_LOCK_TICKS.value;
-        game.shadowPiece = game.currentPiece.getShadowCoordinates(game.board);
+    const action = getKeyAction(e.key);
 
-        if (game.waitForLock) {
-            game.lockMoveResets--;
-            if (game.lockMoveResets === 0) {
-                game.lockTicksRemaining = 0;
-            }
-        }
-    };
-
-    // Calls the associated function every X milliseconds, after a Y milliseconds delay.
-    const handleDAS = (fn: () => void): void => {
-        // Also we call it once, immediately.
-        if (!game.frozen) {
-            fn();
-        }
-
-        let begin: number | null = CONFIG.DAS_DELAY.value;
-        const speed = CONFIG.ARR_SPEED.value;
-
-        const dasLoop = () => {
-            game.keyEvents[e.key] = setTimeout(() => {
-                // Then we set the beginning to null in order to call the function with the speed variable.
-                begin = null;
-
-                if (!game.over) {
-                    dasLoop();
-                }
-
-                // If the game is frozen we don't want to execute the function just yet.
-                if (!game.frozen) {
-                    fn();
-                }
-            }, begin || speed);
-        };
-
-        dasLoop();
-    };
-
-    const moveLeftFn = () => {
-        if (game.currentPiece.moveLeft(game.board)) {
-            update();
-            game.lastMove = Move.Left;
-            game.audioPlayer.playSound('move');
-        }
-    };
-
-    const moveRightFn = () => {
-        if (game.currentPiece.moveRight(game.board)) {
-            update();
-            game.lastMove = Move.Right;
-            game.audioPlayer.playSound('move');
-        }
-    };
-
-    const moveDownFn = () => {
-        game.moveDown(false, true);
-        // Incrementing the drop counter for every time the game registers a consecutive down press.
-        game.currentDrop += 1;
-        // When you hold down you probably do want the piece to lock instantly.
-        game.lockTicksRemaining = 0;
-        game.audioPlayer.playSound('move');
-    };
-
-    switch (e.key) {
-        case CONTROLS.MOVE_LEFT.value:
-            // If we are holding down the key anyways, we do not want to fire game event again.
-            if (game.keyEvents[e.key]) {
-                return;
-            }
-
-            // We also need to clear the event from the opposite direction,
-            // if the user happens to press both keys at once.
-            clearTimeout(game.keyEvents[CONTROLS.MOVE_RIGHT.value]!);
-            game.keyEvents[CONTROLS.MOVE_RIGHT.value] = null;
-            handleDAS(moveLeftFn);
-
-            break;
-        case CONTROLS.MOVE_RIGHT.value:
-            if (game.keyEvents[e.key]) {
-                return;
-            }
-
-            clearTimeout(game.keyEvents[CONTROLS.MOVE_LEFT.value]!);
-            game.keyEvents[CONTROLS.MOVE_LEFT.value] = null;
-            handleDAS(moveRightFn);
-
-            break;
-        case CONTROLS.SOFT_DROP.value:
-            if (game.keyEvents[e.key]) {
-                return;
-            }
-
-            handleDAS(moveDownFn);
-
-            break;
-        case CONTROLS.HARD_DROP.value:
-            if (game.frozen) {
-                return;
-            }
-
-            game.moveDown(true, true);
-            game.audioPlayer.playSound('hardDrop');
-            break;
-        case CONTROLS.ROTATE_CW.value:
-            // We don't want users to rotate a piece while it is frozen.
-            // This could lead to the piece not being in the full line anymore.
-            // We still want to listen to the input for moving a piece left/right
-            // since this is needed to buffer DAS.
-            // The check is not needed for Hard/Soft Drops as you will not be able
-            // to move a piece down any more when a line gets cleared.
-            if (game.frozen) {
-                return;
-            }
-
-            if (game.currentPiece.rotate(game.board, true, false)) {
-                update();
-                game.lastMove = Move.Rotation;
-                game.audioPlayer.playSound('rotate');
-            }
-            break;
-        case CONTROLS.ROTATE_CCW.value:
-            if (game.frozen) {
-                return;
-            }
-
-            if (game.currentPiece.rotate(game.board, false, false)) {
-                update();
-                game.lastMove = Move.Rotation;
-                game.audioPlayer.playSound('rotate');
-            }
-            break;
-        case CONTROLS.ROTATE_180.value:
-            if (game.frozen) {
-                return;
-            }
-
-            if (game.currentPiece.rotate(game.board, true, true)) {
-                update();
-                game.lastMove = Move.Rotation;
-                game.audioPlayer.playSound('rotate');
-            }
-            break;
-        case CONTROLS.HOLD_PIECE.value:
-            if (game.frozen) {
-                return;
-            }
-
-            if (game.toggleHoldPiece()) {
-                update();
-            }
-            break;
-        case CONTROLS.INSERT_GARBAGE.value:
-            if (game.frozen) {
-                return;
-            }
-
-            game.board.insertGarbageLines(2, game.currentPiece);
-            update();
-            game.audioPlayer.playSound('garbage');
-            break;
+    if (action !== null) {
+        game.pressAction(action);
     }
 };
 
@@ -291,18 +273,9 @@ export const handleInput = (e: KeyboardEvent, game: Game): void => {
  * Handles the event when the user releases a key.
  */
 export const handleKeyup = (e: KeyboardEvent, game: Game): void => {
-    if (
-        e.key === CONTROLS.MOVE_LEFT.value ||
-        e.key === CONTROLS.MOVE_RIGHT.value ||
-        e.key === CONTROLS.SOFT_DROP.value
-    ) {
-        clearTimeout(game.keyEvents[e.key]!);
-        game.keyEvents[e.key] = null;
-    }
+    const action = getKeyAction(e.key);
 
-    // Also resetting the down counter when the player releases the down key.
-    if (e.key === CONTROLS.SOFT_DROP.value) {
-        game.currentDrop = 0;
-        game.lockTicksRemaining = CONFIG.PIECE_LOCK_TICKS.value;
+    if (action !== null) {
+        game.releaseAction(action);
     }
 };
@@ -0,0 +1,271 @@
+import { GARBAGE_BLOCK } from './board';
+import { INSTANT_GRAVITY } from './gravity';
+
+/**
+ * A mode put together in the mode builder.
+ *
+ * The targets (lines, score and garbage) all have to be reached to finish the game.
+ * The limits (time and pieces) end the game: without any targets that finishes it, like in Ultra,
+ * otherwise running out before the targets are reached is a game over.
+ * Goals that are not used are null.
+ */
+export interface CustomMode {
+    name: string;
+    lines: number | null;
+    score: number | null;
+    garbage: number | null;
+    // In milliseconds.
+    time: number | null;
+    pieces: number | null;
+    startLevel: number;
+    // A fixed gravity in G on every level, null keeps the gravity curve of the config.
+    gravity: number | null;
+    hold: boolean;
+    preview: boolean;
+    // The rows at the bottom of the starting board, from top to bottom. See CUSTOM_BOARD_BLOCKS.
+    board: string[];
+}
+
+/**
+ * The blocks of a starting board row, '.' is an empty cell.
+ */
+export const CUSTOM_BOARD_BLOCKS: { [char: string]: number } = {
+    '.': 0,
+    I: 1,
+    J: 2,
+    L: 3,
+    O: 4,
+    S: 5,
+    Z: 6,
+    T: 7,
+    G: GARBAGE_BLOCK
+};
+
+// The longest name a mode can have, so that it still fits on the main menu.
+export const CUSTOM_MODE_NAME_LENGTH = 20;
+
+/**
+ * The progress of a game, for checking it against the goals of a custom mode.
+ */
+export interface CustomModeProgress {
+    lines: number;
+    score: number;
+    garbage: number;
+    time: number;
+    pieces: number;
+}
+
+/**
+ * A new mode, with no goals at all.
+ */
+export const createCustomMode = (): CustomMode => {
+    return {
+        name: 'CUSTOM',
+        lines: null,
+        score: null,
+        garbage: null,
+        time: null,
+        pieces: null,
+        startLevel: 1,
+        gravity: null,
+        hold: true,
+        preview: true,
+        board: []
+    };
+};
+
+/**
+ * If the mode has goals that have to be reached, instead of only running until a limit.
+ */
+export const hasCustomTargets = (mode: CustomMode): boolean => {
+    return mode.lines !== null || mode.score !== null || mode.garbage !== null;
+};
+
+/**
+ * Checks a game against the goals of a custom mode.
+ * Returns true once the game is finished, false once it is over, and null while it goes on.
+ */
+export const getCustomModeResult = (
+    mode: CustomMode,
+    progress: CustomModeProgress
+): boolean | null => {
+    if (
+        hasCustomTargets(mode) &&
+        (mode.lines === null || progress.lines >= mode.lines) &&
+        (mode.score === null || progress.score >= mode.score) &&
+        (mode.garbage === null || progress.garbage >= mode.garbage)
+    ) {
+        return true;
+    }
+
+    if (
+        (mode.time !== null && progress.time >= mode.time) ||
+        (mode.pieces !== null && progress.pieces >= mode.pieces)
+    ) {
+        return !hasCustomTargets(mode);
+    }
+
+    return null;
+};
+
+/**
+ * If a row of a starting board only has the blocks of CUSTOM_BOARD_BLOCKS.
+ */
+export const isCustomBoardRow = (row: unknown): boolean => {
+    return typeof row === 'string' && /^[.IJLOSZTG]*$/.test(row);
+};
+
+/**
+ * Turns the rows of a starting board (see CUSTOM_BOARD_BLOCKS) into rows of blocks for a board of that width.
+ * Shorter rows get filled up with empty cells, longer ones get cut off.
+ */
+export const getCustomBoardLines = (rows: string[], width: number): number[][] => {
+    return rows.map((row) => {
+        const line = new Array(width).fill(0);
+
+        for (let i = 0; i < Math.min(row.length, width); i++) {
+            line[i] = CUSTOM_BOARD_BLOCKS[row[i]];
+        }
+
+        return line;
+    });
+};
+
+/**
+ * An id that stays the same as long as the rules of the mode stay the same, the name does not count.
+ * Records are kept by this id, so changing a mode starts its records over,
+ * and everyone playing a shared mode plays for the same records.
+ */
+export const getCustomModeId = (mode: CustomMode): string => {
+    const text = JSON.stringify({ ...mode, name: undefined });
+    let hash = 5381;
+
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 33 + text.charCodeAt(i)) >>> 0;
+    }
+
+    return hash.toString(36);
+};
+
+/**
+ * Turns a mode into a short string for sharing, leaving out everything that is not used.
+ */
+export const exportCustomMode = (mode: CustomMode): string => {
+    const defaults = createCustomMode();
+    const shared: Partial<CustomMode> = Object.fromEntries(
+        Object.entries(mode).filter(
+            ([key, value]) =>
+                key === 'name' ||
+                JSON.stringify(value) !== JSON.stringify(defaults[key as keyof CustomMode])
+        )
+    );
+
+    return JSON.stringify(shared);
+};
+
+/**
+ * Reads a mode from a shared string. Throws an error if it cannot be played.
+ * Everything left out gets the value of a new mode, see createCustomMode().
+ */
+export const parseCustomMode = (text: string): CustomMode => {
+    let shared: Partial<CustomMode>;
+
+    try {
+        shared = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A CUSTOM MODE');
+    }
+
+    if (typeof shared !== 'object' || shared === null || Array.isArray(shared)) {
+        throw new Error('NOT A CUSTOM MODE');
+    }
+
+    const mode: CustomMode = { ...createCustomMode(), ...shared };
+
+    if (
+        typeof mode.name !== 'string' ||
+        mode.name.trim() === '' ||
+        mode.name.length > CUSTOM_MODE_NAME_LENGTH
+    ) {
+        throw new Error('THE MODE NEEDS A NAME');
+    }
+
+    const goals: (keyof CustomMode)[] = ['lines', 'score', 'garbage', 'time', 'pieces'];
+    for (let i = 0; i < goals.length; i++) {
+        const goal = mode[goals[i]];
+
+        if (goal !== null && !(Number.isInteger(goal) && (goal as number) > 0)) {
+            throw new Error(`THE ${goals[i].toUpperCase()} GOAL IS INVALID`);
+        }
+    }
+
+    if (!Number.isInteger(mode.startLevel) || mode.startLevel < 1 || mode.startLevel > 20) {
+        throw new Error('THE START LEVEL IS INVALID');
+    }
+
+    if (
+        mode.gravity !== null &&
+        !(typeof mode.gravity === 'number' && mode.gravity > 0 && mode.gravity <= INSTANT_GRAVITY)
+    ) {
+        throw new Error('THE GRAVITY IS INVALID');
+    }
+
+    if (typeof mode.hold !== 'boolean' || typeof mode.preview !== 'boolean') {
+        throw new Error('NOT A CUSTOM MODE');
+    }
+
+    if (!Array.isArray(mode.board)) {
+        throw new Error('THE BOARD IS INVALID');
+    }
+
+    for (let i = 0; i < mode.board.length; i++) {
+        if (!isCustomBoardRow(mode.board[i])) {
+            throw new Error(`ROW ${i + 1} OF THE BOARD IS INVALID`);
+        }
+    }
+
+    return {
+        name: mode.name,
+        lines: mode.lines,
+        score: mode.score,
+        garbage: mode.garbage,
+        time: mode.time,
+        pieces: mode.pieces,
+        startLevel: mode.startLevel,
+        gravity: mode.gravity,
+        hold: mode.hold,
+        preview: mode.preview,
+        board: mode.board
+    };
+};
+
+/**
+ * Loads the saved custom modes from local storage, the ones that cannot be read anymore are left out.
+ */
+export const loadCustomModes = (): CustomMode[] => {
+    let saved: string[];
+
+    try {
+        saved = JSON.parse(localStorage.getItem('custom-modes') || '[]');
+    } catch {
+        return [];
+    }
+
+    const modes: CustomMode[] = [];
+    for (let i = 0; i < saved.length; i++) {
+        try {
+            modes.push(parseCustomMode(saved[i]));
+        } catch {
+            // Skipping the broken mode.
+        }
+    }
+
+    return modes;
+};
+
+/**
+ * Saves the custom modes to local storage.
+ */
+export const saveCustomModes = (modes: CustomMode[]): void => {
+    localStorage.setItem('custom-modes', JSON.stringify(modes.map(exportCustomMode)));
+};
@@ -0,0 +1,129 @@
+import { CONFIG } from './config';
+import { CUSTOM_BOARD_BLOCKS, isCustomBoardRow } from './customMode';
+import type { Game } from './game';
+
+/**
+ * A practice setup made in the board editor, the game starts from exactly this state.
+ * The randomizer takes over once the queue of the setup is used up.
+ */
+export interface BoardSetup {
+    // The rows at the bottom of the board, like the starting board of a custom mode.
+    board: string[];
+    // The pieces by name, for example "T".
+    current: string;
+    hold: string | null;
+    // The next pieces in the order they come, for example "IOLJ".
+    queue: string;
+}
+
+// The pieces a setup can use, the board editor paints with the usual seven.
+const SETUP_PIECES = /^[IJLOSZT]*$/;
+
+/**
+ * A new setup, with an empty board and nothing in the queue.
+ */
+export const createBoardSetup = (): BoardSetup => {
+    return {
+        board: [],
+        current: 'T',
+        hold: null,
+        queue: ''
+    };
+};
+
+/**
+ * Turns the blocks of a board into the rows of a setup, see CUSTOM_BOARD_BLOCKS.
+ * The empty rows above the highest block are left out, blocks without a letter become garbage.
+ */
+export const getSetupRows = (board: number[][]): string[] => {
+    const letters = Object.keys(CUSTOM_BOARD_BLOCKS);
+    const rows = board.map((line) =>
+        line.map((block) => letters.find((l) => CUSTOM_BOARD_BLOCKS[l] === block) ?? 'G').join('')
+    );
+
+    const top = rows.findIndex((row) => /[^.]/.test(row));
+
+    return top === -1 ? [] : rows.slice(top);
+};
+
+/**
+ * The setup of a game as it is right now, for sharing its board or practicing it in the board editor.
+ * The queue only has the pieces that are shown, pieces outside of the usual seven are left out.
+ */
+export const getGameSetup = (game: Game): BoardSetup => {
+    const board = game.board.GameBoard.map((line) => line.slice());
+    const isSetupPiece = (name: string): boolean => name.length === 1 && SETUP_PIECES.test(name);
+
+    // The current piece is part of the board until it locks, after that it is only waiting for the line clear.
+    if (!game.over && !game.finished && game.lineClearTicksRemaining === 0) {
+        for (const [i, j] of game.currentPiece.getCoordinates()) {
+            board[i][j] = 0;
+        }
+    }
+
+    return {
+        board: getSetupRows(board),
+        current: isSetupPiece(game.currentPiece.name) ? game.currentPiece.name : 'T',
+        hold: game.holdPiece && isSetupPiece(game.holdPiece.name) ? game.holdPiece.name : null,
+        queue: game.nextPieces
+            .slice(0, CONFIG.PREVIEW_PIECE_AMOUNT.value)
+            .map((p) => p.name)
+            .filter(isSetupPiece)
+            .join('')
+    };
+};
+
+/**
+ * Reads a setup from JSON. Throws an error if it cannot be played.
+ */
+export const parseBoardSetup = (text: string): BoardSetup => {
+    let setup: BoardSetup;
+
+    try {
+        setup = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A BOARD SETUP');
+    }
+
+    if (typeof setup !== 'object' || setup === null || Array.isArray(setup)) {
+        throw new Error('NOT A BOARD SETUP');
+    }
+
+    if (!Array.isArray(setup.board) || !setup.board.every(isCustomBoardRow)) {
+        throw new Error('THE BOARD IS INVALID');
+    }
+
+    if (
+        typeof setup.current !== 'string' ||
+        setup.current.length !== 1 ||
+        !SETUP_PIECES.test(setup.current) ||
+        !(setup.hold === null || (typeof setup.hold === 'string' && setup.hold.length === 1)) ||
+        !SETUP_PIECES.test(setup.hold ?? '') ||
+        typeof setup.queue !== 'string' ||
+        !SETUP_PIECES.test(setup.queue)
+    ) {
+        throw new Error('THE PIECES ARE INVALID');
+    }
+
+    return {
+        board: setup.board,
+        current: setup.current,
+        hold: setup.hold,
+        queue: setup.queue
+    };
+};
+
+/**
+ * Loads the setup that was last made in the board editor, or a new one.
+ */
+export const loadBoardSetup = (): BoardSetup => {
+    try {
+        return parseBoardSetup(localStorage.getItem('board-setup') || '');
+    } catch {
+        return createBoardSetup();
+    }
+};
+
+export const saveBoardSetup = (setup: BoardSetup): void => {
+    localStorage.setItem('board-setup', JSON.stringify(setup));
+};
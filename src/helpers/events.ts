@@ -0,0 +1,74 @@
+/**
+ * A listener for a single event.
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * A listener for every event, gets the name of the event as well.
+ */
+export type AnyEventListener<Events> = <E extends keyof Events>(
+    event: E,
+    payload: Events[E]
+) => void;
+
+/**
+ * A simple typed event emitter.
+ * The events and their payloads are defined by an interface, see GameEvents.
+ */
+export class EventBus<Events> {
+    listeners: { [E in keyof Events]?: EventListener<Events[E]>[] };
+    anyListeners: AnyEventListener<Events>[];
+
+    constructor() {
+        this.listeners = {};
+        this.anyListeners = [];
+    }
+
+    /**
+     * Subscribes to an event, returns a function to unsubscribe again.
+     */
+    on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): () => void {
+        if (!this.listeners[event]) {
+            this.listeners[event] = [];
+        }
+
+        this.listeners[event]!.push(listener);
+
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Unsubscribes from an event.
+     */
+    off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): void {
+        const listeners: EventListener<Events[E]>[] = this.listeners[event] ?? [];
+        this.listeners[event] = listeners.filter((l) => l !== listener);
+    }
+
+    /**
+     * Subscribes to all events, returns a function to unsubscribe again.
+     */
+    onAny(listener: AnyEventListener<Events>): () => void {
+        this.anyListeners.push(listener);
+
+        return () => {
+            this.anyListeners = this.anyListeners.filter((l) => l !== listener);
+        };
+    }
+
+    /**
+     * Calls every listener of the event with the payload.
+     */
+    emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+        // Copying the lists, so that listeners can unsubscribe while the event is emitted.
+        const listeners: EventListener<Events[E]>[] = [...(this.listeners[event] ?? [])];
+        for (let i = 0; i < listeners.length; i++) {
+            listeners[i](payload);
+        }
+
+        const anyListeners = [...this.anyListeners];
+        for (let i = 0; i < anyListeners.length; i++) {
+            anyListeners[i](event, payload);
+        }
+    }
+}
@@ -0,0 +1,173 @@
+import { Board, DEFAULT_BOARD_WIDTH } from './board';
+import { CONFIG } from './config';
+import type { Piece } from './pieces';
+import { Action } from './types';
+
+/**
+ * The inputs the minimal sequences are made of.
+ * Holding a movement key until the piece hits the wall (DAS) counts as a single input,
+ * just like a tap.
+ */
+enum FinesseInput {
+    TapLeft,
+    TapRight,
+    DasLeft,
+    DasRight,
+    RotateCW,
+    RotateCCW,
+    Rotate180
+}
+
+// The minimal inputs for every placement, per piece, rotation system, 180° kicks and board width.
+// They only depend on those, so they get calculated once.
+// The pieces are told apart by their rotations, since pieces of custom sets can have any name.
+const finesseTables = new WeakMap<number[][][], Map<string, Map<string, number>>>();
+
+const getTableKey = (piece: Piece, boardWidth: number): string => {
+    return `${piece.rotationSystem}:${CONFIG.KICKS_180.value}:${boardWidth}`;
+};
+
+/**
+ * Gets a key describing where a piece ends up, independent of its height and rotation state.
+ * Pieces like the I, S or Z look the same in two rotation states,
+ * which makes those placements equal.
+ */
+const getPlacementKey = (coords: number[][]): string => {
+    const top = Math.min(...coords.map((c) => c[0]));
+
+    return coords
+        .map((c) => `${c[0] - top}:${c[1]}`)
+        .sort()
+        .join(',');
+};
+
+/**
+ * Performs a single input on a piece that sits on an empty board.
+ * Returns if the piece moved at all.
+ */
+const performInput = (board: Board, piece: Piece, input: FinesseInput): boolean => {
+    switch (input) {
+        case FinesseInput.TapLeft:
+            return piece.moveLeft(board);
+        case FinesseInput.TapRight:
+            return piece.moveRight(board);
+        case FinesseInput.DasLeft: {
+            let moved = false;
+            while (piece.moveLeft(board)) {
+                moved = true;
+            }
+            return moved;
+        }
+        case FinesseInput.DasRight: {
+            let moved = false;
+            while (piece.moveRight(board)) {
+                moved = true;
+            }
+            return moved;
+        }
+        case FinesseInput.RotateCW:
+            return piece.rotate(board, true, false);
+        case FinesseInput.RotateCCW:
+            return piece.rotate(board, false, false);
+        case FinesseInput.Rotate180:
+            return piece.rotate(board, true, true);
+    }
+};
+
+/**
+ * Calculates the minimal amount of inputs for every placement of a piece,
+ * by searching through all the positions it can reach from its spawn on an empty board.
+ */
+const getFinesseTable = (piece: Piece, boardWidth: number): Map<string, number> => {
+    if (!finesseTables.has(piece.rotations)) {
+        finesseTables.set(piece.rotations, new Map());
+    }
+    const pieceTables = finesseTables.get(piece.rotations)!;
+
+    const cached = pieceTables.get(getTableKey(piece, boardWidth));
+    if (cached) {
+        return cached;
+    }
+
+    const table = new Map<string, number>();
+    const visited = new Set<string>();
+
+    const start = piece.clone();
+    start.reset(boardWidth);
+    const queue: { rotation: number; offset: number[]; inputs: number }[] = [
+        { rotation: start.currentRotation, offset: start.offset.slice(), inputs: 0 }
+    ];
+    visited.add(`${start.currentRotation}:${start.offset.join(':')}`);
+
+    while (queue.length > 0) {
+        const state = queue.shift()!;
+
+        const current = piece.clone();
+        current.currentRotation = state.rotation;
+        current.offset = state.offset.slice();
+
+        // Since the search is breadth first, the first time we see a placement is the cheapest one.
+        const key = getPlacementKey(current.getCoordinates());
+        if (!table.has(key)) {
+            table.set(key, state.inputs);
+        }
+
+        for (let input = FinesseInput.TapLeft; input <= FinesseInput.Rotate180; input++) {
+            const board = new Board(null, boardWidth);
+            const next = current.clone();
+
+            const coords = next.getCoordinates();
+            for (let i = 0; i < coords.length; i++) {
+                board.GameBoard[coords[i][0]][coords[i][1]] = next.color;
+            }
+
+            if (!performInput(board, next, input)) {
+                continue;
+            }
+
+            const position = `${next.currentRotation}:${next.offset.join(':')}`;
+            if (visited.has(position)) {
+                continue;
+            }
+
+            visited.add(position);
+            queue.push({
+                rotation: next.currentRotation,
+                offset: next.offset.slice(),
+                inputs: state.inputs + 1
+            });
+        }
+    }
+
+    pieceTables.set(getTableKey(piece, boardWidth), table);
+
+    return table;
+};
+
+/**
+ * Gets the minimal amount of inputs needed to bring a piece from its spawn
+ * into the column and rotation it is in now.
+ * Returns null if the placement cannot be reached on an empty board,
+ * for example after a tuck or a spin.
+ */
+export const getMinimalInputs = (
+    piece: Piece,
+    boardWidth: number = DEFAULT_BOARD_WIDTH
+): number | null => {
+    const table = getFinesseTable(piece, boardWidth);
+
+    return table.get(getPlacementKey(piece.getCoordinates())) ?? null;
+};
+
+/**
+ * If a pressed action counts as an input for the finesse.
+ */
+export const isFinesseInput = (action: Action): boolean => {
+    return (
+        action === Action.MoveLeft ||
+        action === Action.MoveRight ||
+        action === Action.RotateCW ||
+        action === Action.RotateCCW ||
+        action === Action.Rotate180
+    );
+};
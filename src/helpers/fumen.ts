@@ -0,0 +1,517 @@
+import { createBoardSetup, type BoardSetup } from './editor';
+
+/**
+ * How a piece on a fumen page is turned, starting from the way it spawns.
+ */
+export type FumenRotation = 'spawn' | 'right' | 'reverse' | 'left';
+
+/**
+ * The piece shown on a fumen page.
+ * The position is the one fumen uses: the column from the left and the row from the bottom
+ * of the center of the piece, see FUMEN_SHAPES.
+ */
+export interface FumenPiece {
+    name: string;
+    rotation: FumenRotation;
+    x: number;
+    y: number;
+}
+
+/**
+ * A page of a fumen, the piece of a page gets locked into the board of the next one.
+ */
+export interface FumenPage {
+    // The rows at the bottom of the board, like a board setup. Fumen boards are always 10 wide.
+    board: string[];
+    piece: FumenPiece | null;
+    comment: string;
+}
+
+// The characters of the encoded data, every one of them is a digit in base 64.
+const ENCODE_TABLE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+// The characters of comments, four of them are put together into five digits.
+const COMMENT_TABLE =
+    ' !"#$%&\'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~';
+const COMMENT_BASE = COMMENT_TABLE.length + 1;
+const MAX_COMMENT_LENGTH = 4095;
+
+const FIELD_WIDTH = 10;
+const FIELD_HEIGHT = 23;
+// The field has one more row below it, for the garbage that can rise into it.
+const FIELD_BLOCKS = (FIELD_HEIGHT + 1) * FIELD_WIDTH;
+// The blocks of the field by their number in fumen, with the letters of a board setup.
+const FUMEN_BLOCKS = ['.', 'I', 'L', 'O', 'Z', 'T', 'J', 'S', 'G'];
+// The difference of an unchanged block, the differences are stored from -8 to 8 as 0 to 16.
+const NO_DIFFERENCE = 8;
+// The rotations by their number in fumen.
+const FUMEN_ROTATIONS: FumenRotation[] = ['reverse', 'right', 'spawn', 'left'];
+
+/**
+ * The blocks of the pieces around their center when they spawn, with the rows going up.
+ */
+const FUMEN_SHAPES: { [name: string]: number[][] } = {
+    I: [
+        [0, 0],
+        [-1, 0],
+        [1, 0],
+        [2, 0]
+    ],
+    T: [
+        [0, 0],
+        [-1, 0],
+        [1, 0],
+        [0, 1]
+    ],
+    O: [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [1, 1]
+    ],
+    L: [
+        [0, 0],
+        [-1, 0],
+        [1, 0],
+        [1, 1]
+    ],
+    J: [
+        [0, 0],
+        [-1, 0],
+        [1, 0],
+        [-1, 1]
+    ],
+    S: [
+        [0, 0],
+        [-1, 0],
+        [0, 1],
+        [1, 1]
+    ],
+    Z: [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [-1, 1]
+    ]
+};
+
+/**
+ * Fumen stores some pieces by another center than the one of FUMEN_SHAPES.
+ * This is how far the stored center is away from the actual one, by piece and rotation.
+ */
+const POSITION_OFFSETS: { [piece: string]: { [rotation: string]: number[] } } = {
+    O: { spawn: [0, 1], reverse: [-1, 0], left: [-1, 1] },
+    I: { reverse: [-1, 0], left: [0, 1] },
+    S: { spawn: [0, 1], right: [1, 0] },
+    Z: { spawn: [0, 1], left: [-1, 0] }
+};
+
+/**
+ * The fields of fumen hold the number of a block for every cell, row by row from the top.
+ * The last row is the one below the field.
+ */
+type Field = number[];
+
+/**
+ * Gets you the cells of a piece in a field, as their row from the top and their column.
+ */
+const getPieceCells = (piece: FumenPiece): number[][] => {
+    return FUMEN_SHAPES[piece.name].map(([dx, dy]) => {
+        let [x, y] = [dx, dy];
+
+        switch (piece.rotation) {
+            case 'right':
+                [x, y] = [dy, -dx];
+                break;
+            case 'reverse':
+                [x, y] = [-dx, -dy];
+                break;
+            case 'left':
+                [x, y] = [-dy, dx];
+                break;
+        }
+
+        return [FIELD_HEIGHT - 1 - (piece.y + y), piece.x + x];
+    });
+};
+
+/**
+ * Turns the rows of a board into a field, the rows end up at the bottom of the field.
+ */
+const getField = (rows: string[]): Field => {
+    const field: Field = new Array(FIELD_BLOCKS).fill(0);
+    const visible = rows.slice(-FIELD_HEIGHT);
+    const top = FIELD_HEIGHT - visible.length;
+
+    for (let i = 0; i < visible.length; i++) {
+        for (let j = 0; j < Math.min(visible[i].length, FIELD_WIDTH); j++) {
+            field[(top + i) * FIELD_WIDTH + j] = FUMEN_BLOCKS.indexOf(visible[i][j]);
+        }
+    }
+
+    return field;
+};
+
+/**
+ * Turns a field back into the rows of a board, leaving out the empty rows above the highest block.
+ */
+const getFieldRows = (field: Field): string[] => {
+    const rows: string[] = [];
+
+    for (let i = 0; i < FIELD_HEIGHT; i++) {
+        const line = field.slice(i * FIELD_WIDTH, (i + 1) * FIELD_WIDTH);
+        rows.push(line.map((block) => FUMEN_BLOCKS[block]).join(''));
+    }
+
+    const top = rows.findIndex((row) => /[^.]/.test(row));
+
+    return top === -1 ? [] : rows.slice(top);
+};
+
+/**
+ * The field of the next page: the piece gets locked in and the full lines get cleared.
+ * Fumen can also push up the row below the field and mirror the field afterwards.
+ */
+const lockPiece = (
+    field: Field,
+    piece: FumenPiece | null,
+    rise: boolean,
+    mirror: boolean
+): Field => {
+    const next = field.slice();
+
+    if (piece) {
+        for (const [row, column] of getPieceCells(piece)) {
+            if (row >= 0 && row < FIELD_HEIGHT && column >= 0 && column < FIELD_WIDTH) {
+                next[row * FIELD_WIDTH + column] = FUMEN_BLOCKS.indexOf(piece.name);
+            }
+        }
+    }
+
+    let lines: number[][] = [];
+    for (let i = 0; i < FIELD_HEIGHT; i++) {
+        const line = next.slice(i * FIELD_WIDTH, (i + 1) * FIELD_WIDTH);
+
+        if (line.includes(0)) {
+            lines.push(line);
+        }
+    }
+
+    while (lines.length < FIELD_HEIGHT) {
+        lines.unshift(new Array(FIELD_WIDTH).fill(0));
+    }
+
+    let below = next.slice(FIELD_HEIGHT * FIELD_WIDTH);
+
+    if (rise) {
+        lines = [...lines.slice(1), below];
+        below = new Array(FIELD_WIDTH).fill(0);
+    }
+
+    if (mirror) {
+        lines = lines.map((line) => line.reverse());
+    }
+
+    return [...lines.flat(), ...below];
+};
+
+/**
+ * Adds a number to the encoded data, with the lowest digit first.
+ */
+const pushValue = (values: number[], value: number, digits: number): void => {
+    for (let i = 0; i < digits; i++) {
+        values.push(value % ENCODE_TABLE.length);
+        value = Math.floor(value / ENCODE_TABLE.length);
+    }
+};
+
+/**
+ * Encodes the differences between two fields, as runs of cells with the same difference.
+ * Returns if the field changed at all.
+ */
+const encodeField = (values: number[], previous: Field, field: Field): boolean => {
+    let runDifference = field[0] - previous[0] + NO_DIFFERENCE;
+    let runLength = 0;
+
+    for (let i = 1; i < FIELD_BLOCKS; i++) {
+        const difference = field[i] - previous[i] + NO_DIFFERENCE;
+
+        if (difference === runDifference) {
+            runLength++;
+        } else {
+            pushValue(values, runDifference * FIELD_BLOCKS + runLength, 2);
+            runDifference = difference;
+            runLength = 0;
+        }
+    }
+
+    pushValue(values, runDifference * FIELD_BLOCKS + runLength, 2);
+
+    return !(runDifference === NO_DIFFERENCE && runLength === FIELD_BLOCKS - 1);
+};
+
+/**
+ * Encodes the piece and the flags of a page.
+ */
+const encodeAction = (piece: FumenPiece | null, comment: boolean): number => {
+    let type = 0;
+    let rotation = 0;
+    let position = 0;
+
+    if (piece) {
+        const offset = POSITION_OFFSETS[piece.name]?.[piece.rotation] ?? [0, 0];
+
+        type = FUMEN_BLOCKS.indexOf(piece.name);
+        rotation = FUMEN_ROTATIONS.indexOf(piece.rotation);
+        position = piece.x + offset[0] + (FIELD_HEIGHT - (piece.y + offset[1]) - 1) * FIELD_WIDTH;
+    }
+
+    // Pieces always lock in the guideline colors, and neither the rise nor the mirror flag is used.
+    let value = 0;
+    value = value * 2 + (comment ? 1 : 0);
+    value = value * 2 + 1;
+    value = value * 2;
+    value = value * 2;
+    value = value * FIELD_BLOCKS + position;
+    value = value * 4 + rotation;
+    value = value * 8 + type;
+
+    return value;
+};
+
+/**
+ * Encodes a comment, which gets escaped so that it only has characters of the COMMENT_TABLE.
+ */
+const encodeComment = (values: number[], comment: string): void => {
+    const escaped = escape(comment).slice(0, MAX_COMMENT_LENGTH);
+    pushValue(values, escaped.length, 2);
+
+    for (let i = 0; i < escaped.length; i += 4) {
+        let value = 0;
+
+        for (let j = Math.min(i + 3, escaped.length - 1); j >= i; j--) {
+            value = value * COMMENT_BASE + COMMENT_TABLE.indexOf(escaped[j]);
+        }
+
+        pushValue(values, value, 5);
+    }
+};
+
+/**
+ * Encodes pages into a fumen string in version 115, the one every tool understands.
+ */
+export const encodeFumen = (pages: FumenPage[]): string => {
+    const values: number[] = [];
+
+    let previous: Field = new Array(FIELD_BLOCKS).fill(0);
+    let previousComment = '';
+    // Where the count of unchanged pages in a row is, if the last field did not change.
+    let repeatIndex: number | null = null;
+
+    for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        const field = getField(page.board);
+
+        const fieldValues: number[] = [];
+        if (encodeField(fieldValues, previous, field)) {
+            values.push(...fieldValues);
+            repeatIndex = null;
+        } else if (repeatIndex === null || values[repeatIndex] === ENCODE_TABLE.length - 1) {
+            values.push(...fieldValues, 0);
+            repeatIndex = values.length - 1;
+        } else {
+            values[repeatIndex]++;
+        }
+
+        // A comment stays for the following pages, so it only gets stored when it changes.
+        const hasComment = page.comment !== previousComment;
+        pushValue(values, encodeAction(page.piece, hasComment), 3);
+
+        if (hasComment) {
+            encodeComment(values, page.comment);
+            previousComment = page.comment;
+        }
+
+        previous = lockPiece(field, page.piece, false, false);
+    }
+
+    const data = values.map((value) => ENCODE_TABLE[value]).join('');
+    // Long fumens get split up by question marks, the first part is shorter to make room for the version.
+    const parts = [data.slice(0, 42)];
+    for (let i = 42; i < data.length; i += 47) {
+        parts.push(data.slice(i, i + 47));
+    }
+
+    return `v115@${parts.join('?')}`;
+};
+
+/**
+ * Decodes the pages of a fumen string, or of a link with one. Throws an error if it cannot be read.
+ */
+export const decodeFumen = (text: string): FumenPage[] => {
+    const match = /[vmd](\d{3})@([A-Za-z0-9+/?]*)/.exec(text);
+
+    if (!match) {
+        throw new Error('NOT A FUMEN');
+    }
+
+    if (match[1] !== '115') {
+        throw new Error('ONLY VERSION 115 FUMENS ARE SUPPORTED');
+    }
+
+    const values = match[2]
+        .replace(/\?/g, '')
+        .split('')
+        .map((char) => ENCODE_TABLE.indexOf(char));
+    let index = 0;
+
+    const pollValue = (digits: number): number => {
+        if (index + digits > values.length) {
+            throw new Error('THE FUMEN IS DAMAGED');
+        }
+
+        let value = 0;
+        for (let i = digits - 1; i >= 0; i--) {
+            value = value * ENCODE_TABLE.length + values[index + i];
+        }
+
+        index += digits;
+        return value;
+    };
+
+    const pages: FumenPage[] = [];
+    let previous: Field = new Array(FIELD_BLOCKS).fill(0);
+    let comment = '';
+    // The amount of pages that still keep the field of the page before them.
+    let repeatCount = 0;
+
+    while (index < values.length) {
+        const field = previous.slice();
+
+        if (repeatCount > 0) {
+            repeatCount--;
+        } else {
+            let cell = 0;
+            let changed = true;
+
+            while (cell < FIELD_BLOCKS) {
+                const run = pollValue(2);
+                const difference = Math.floor(run / FIELD_BLOCKS) - NO_DIFFERENCE;
+                const runLength = (run % FIELD_BLOCKS) + 1;
+
+                if (difference === 0 && runLength === FIELD_BLOCKS) {
+                    changed = false;
+                }
+
+                for (let i = 0; i < runLength && cell < FIELD_BLOCKS; i++, cell++) {
+                    field[cell] += difference;
+                }
+            }
+
+            if (!changed) {
+                repeatCount = pollValue(1);
+            }
+        }
+
+        if (field.some((block) => block < 0 || block >= FUMEN_BLOCKS.length)) {
+            throw new Error('THE FUMEN IS DAMAGED');
+        }
+
+        let action = pollValue(3);
+        const type = action % 8;
+        action = Math.floor(action / 8);
+        const rotation = FUMEN_ROTATIONS[action % 4];
+        action = Math.floor(action / 4);
+        const position = action % FIELD_BLOCKS;
+        action = Math.floor(action / FIELD_BLOCKS);
+        const rise = action % 2 === 1;
+        action = Math.floor(action / 2);
+        const mirror = action % 2 === 1;
+        // Skipping the colorize flag as well, the colors are always the guideline ones.
+        action = Math.floor(action / 4);
+        const hasComment = action % 2 === 1;
+        action = Math.floor(action / 2);
+        const lock = action % 2 === 0;
+
+        // Only the usual pieces can be shown on a page, the garbage block does not count.
+        let piece: FumenPiece | null = null;
+        const name = FUMEN_BLOCKS[type];
+        if (FUMEN_SHAPES[name]) {
+            const offset = POSITION_OFFSETS[name]?.[rotation] ?? [0, 0];
+
+            piece = {
+                name: name,
+                rotation: rotation,
+                x: (position % FIELD_WIDTH) - offset[0],
+                y: FIELD_HEIGHT - Math.floor(position / FIELD_WIDTH) - 1 - offset[1]
+            };
+        }
+
+        if (hasComment) {
+            const length = pollValue(2);
+            let escaped = '';
+
+            for (let i = 0; i < length; i += 4) {
+                let value = pollValue(5);
+
+                for (let j = 0; j < 4; j++) {
+                    escaped += COMMENT_TABLE[value % COMMENT_BASE] ?? '';
+                    value = Math.floor(value / COMMENT_BASE);
+                }
+            }
+
+            comment = unescape(escaped.slice(0, length));
+        }
+
+        pages.push({ board: getFieldRows(field), piece: piece, comment: comment });
+
+        previous = lock ? lockPiece(field, piece, rise, mirror) : field;
+    }
+
+    if (pages.length === 0) {
+        throw new Error('THE FUMEN IS DAMAGED');
+    }
+
+    return pages;
+};
+
+/**
+ * Turns a board setup into a fumen with a single page.
+ * The pieces go into the comment the way fumen quizzes have them: #Q=[hold](current)next.
+ */
+export const exportBoardSetup = (setup: BoardSetup): string => {
+    return encodeFumen([
+        {
+            board: setup.board,
+            piece: null,
+            comment: `#Q=[${setup.hold ?? ''}](${setup.current})${setup.queue}`
+        }
+    ]);
+};
+
+/**
+ * Reads a board setup from the first page of a fumen.
+ * Without a quiz comment, the piece shown on the page becomes the current piece.
+ */
+export const importBoardSetup = (text: string): BoardSetup => {
+    const page = decodeFumen(text)[0];
+    const setup = createBoardSetup();
+    setup.board = page.board;
+
+    const quiz = /^#Q=\[([IJLOSZT]?)\]\(([IJLOSZT]?)\)([IJLOSZT]*)/.exec(page.comment);
+
+    if (quiz) {
+        setup.hold = quiz[1] || null;
+        setup.queue = quiz[3];
+
+        if (quiz[2]) {
+            setup.current = quiz[2];
+        } else if (setup.queue.length > 0) {
+            setup.current = setup.queue[0];
+            setup.queue = setup.queue.slice(1);
+        }
+    } else if (page.piece) {
+        setup.current = page.piece.name;
+    }
+
+    return setup;
+};
@@ -1,12 +1,46 @@
 import { AudioPlayer } from './audio';
-import { Board } from './board';
+import { Board, DEFAULT_BOARD_HEIGHT, DEFAULT_BOARD_WIDTH, GARBAGE_BLOCK } from './board';
 import { CONFIG } from './config';
+import { getCustomBoardLines, getCustomModeResult, type CustomMode } from './customMode';
+import type { BoardSetup } from './editor';
+import { EventBus } from './events';
+import { getMinimalInputs, isFinesseInput } from './finesse';
+import {
+    DIG_MESSINESS,
+    DIG_PIECES_PER_GARBAGE,
+    DIG_START_HEIGHT,
+    GARBAGE_SPAWN_ROOM,
+    generateGarbageLines,
+    getRiseInterval
+} from './garbage';
+import {
+    findGravity,
+    getGravityRows,
+    getGravityTable,
+    INSTANT_GRAVITY,
+    TGM_GRAVITY
+} from './gravity';
+import { requestHint } from './hint';
+import { getMasterTimings, getNextMasterLevel, MasterGrading } from './master';
+import { endsWithTopOut, getGarbageGoal, getMaxLevel, recordsHighScore } from './mode';
+import { getPieceSet } from './pieceData';
 import type { Piece } from './pieces';
-import { getRandomPiece } from './rng';
+import {
+    getPieceSetDefinition,
+    PIECE_SETS,
+    PieceSetType,
+    type PieceSetDefinition
+} from './pieceSets';
+import { isPuzzleSolved, type Puzzle } from './puzzle';
+import { createReplay, getBestReplayName, saveReplay, type ReplayRules } from './replay';
+import { generateSeed, getGarbageSeed, getRandomPiece, Random, type RandomizerType } from './rng';
+import { ROTATION_SYSTEMS, RotationSystemType } from './rotation';
 import { setHighScore } from './score';
+import { getGuidelineScore, getScoringRuleset, type ScoringType } from './scoring';
+import { applyPieceColors } from './style';
 import { incrementLifetimeStats } from './stats';
-import { Timer } from './timer';
-import { Menu, Move, TSpin, type KeyEvents } from './types';
+import { ticksToMs, Timer } from './timer';
+import { Action, Menu, Move, TSpin, type GameEvents, type HeldAction, type Hint } from './types';
 
 export class Game {
     mode: Menu;
@@ -21,23 +55,82 @@ export class Game {
 
     maxTime: number | null;
     maxLines: number | null;
+    // The level that finishes the game, only Master has one.
+    maxLevel: number | null;
+
+    // The seed of the random generator, the same seed always yields the same pieces and garbage.
+    seed: number;
+    random: Random;
+    // The garbage has its own generator, so that the pieces stay the same no matter how much garbage comes up.
+    garbageRandom: Random;
+    // The randomizer and the amount of bags it uses at once, taken from the config when the game starts.
+    randomizer: RandomizerType;
+    pieceBagAmount: number;
+
+    // The rotation system decides how the pieces spawn, rotate and kick off walls.
+    rotationSystem: RotationSystemType;
+    // The pieces the game draws from, set up for the rotation system.
+    pieceSet: Piece[];
+    // The set as plain data, for saves and the bot.
+    pieceSetDefinition: PieceSetDefinition;
+
+    // The ruleset that decides the points for line clears and drops.
+    scoring: ScoringType;
+    // The gravity of every level in G (rows per tick), from the chosen gravity curve.
+    gravityTable: number[][];
+    // The section times and grade of a Master game, null in every other mode.
+    grading: MasterGrading | null;
+    // The rules of a custom mode, null in every other mode.
+    customMode: CustomMode | null;
+    // The puzzle that is being played, null in every other mode.
+    puzzle: Puzzle | null;
+    // The setup of the board editor the game started from, null in every other mode.
+    setup: BoardSetup | null;
 
     board: Board;
     currentPiece: Piece;
     nextPieces: Piece[];
-    // The individual count of each piece.
+    // The individual count of each piece, in the order of the piece set.
     pieceCountList: number[];
+    // The pieces that locked so far, the current piece and the held piece do not count.
+    piecesPlaced: number;
 
     // The coordinates of the "shadow" piece.
     shadowPiece: number[][];
+    // The placement suggested by the hint overlay, if it is turned on.
+    showHint: boolean;
+    hint: Hint | null;
+    // Counts the searches for a hint, answers to an older search are thrown away.
+    hintRequest: number;
     holdPiece: Piece | null;
     // You can only toggle held pieces once per turn.
     canHold: boolean;
+    // Custom modes can turn off the hold and the preview of the next pieces.
+    holdEnabled: boolean;
+    previewEnabled: boolean;
 
     lastMove: Move;
 
     backToBack: number;
     currentCombo: number;
+    // The lines cleared during the ongoing combo.
+    comboLines: number;
+
+    // The garbage lines that were sent by an opponent, but have not reached the board yet.
+    incomingGarbage: number;
+    // The garbage lines cleared so far, these count towards the lines too.
+    garbageCleared: number;
+    // The garbage lines to clear to finish the game, and the least amount kept on the board until then.
+    garbageGoal: number | null;
+    garbageMinimum: number;
+    // The chance (0 - 1) that the hole of a garbage line moves to another column, see generateGarbageLines().
+    garbageMessiness: number;
+    // In a dig, a garbage line comes up after this many pieces in a row that did not clear a line.
+    garbagePieceInterval: number | null;
+    garbagePieces: number;
+    // The ticks until the next garbage line rises in survival, null in every other mode.
+    riseTicksRemaining: number | null;
+    garbageRises: number;
 
     // We need to keep track of how long the player is holding down in a row.
     currentDrop: number;
@@ -47,38 +140,87 @@ export class Game {
     // The specific line clears (Single, Double, Triple, Tetris)
     lineCountList: number[];
     level: number;
+    startLevel: number;
     // The number of Mini and Full T-Spins
     tSpinCountList: number[];
 
     // A tick is 1/60th of a second.
     ticks: number;
+    // The amount of ticks since the start of the game, this never gets reset.
+    frame: number;
     // Just a timer that gets displayed.
     timer: Timer;
 
+    // The lock delay, spawn delay (ARE) and line clear delay, usually from the config.
+    // Master shortens them section by section.
+    lockTicks: number;
+    spawnDelay: number;
+    lineClearDelay: number;
     // The amount of ticks after a piece gets locked without input.
     lockTicksRemaining: number;
     waitForLock: boolean;
     lockMoveResets: number;
+    // The amount of ticks left until the cleared lines disappear and the next piece appears.
+    lineClearTicksRemaining: number;
 
-    // For the DAS.
-    keyEvents: KeyEvents;
+    // Every successful action of the player with the frame it happened in, used for replays.
+    inputLog: number[][];
 
+    // The actions the player is currently holding down, for the DAS.
+    heldActions: HeldAction[];
+
+    // The keys pressed for the current piece, compared to the minimal inputs once it locks.
+    pieceInputs: number;
+    // Soft dropped pieces can be tucked or spun into places, so their finesse is not checked.
+    pieceSoftDropped: boolean;
+    finesseFaults: number;
+
+    // A headless game has no sounds and does not save anything,
+    // and only advances when the caller steps it.
+    headless: boolean;
+
+    // Everything that happens in the game gets announced here, for sounds, effects or anyone embedding the game.
+    events: EventBus<GameEvents>;
     audioPlayer: AudioPlayer;
 
     constructor(
         gameMode: Menu = Menu.Endless,
         maxLines: number | null = null,
         maxTime: number | null = null,
-        startLevel: number = 1
+        startLevel: number = 1,
+        seed: number = generateSeed(),
+        headless: boolean = false,
+        boardWidth: number = DEFAULT_BOARD_WIDTH,
+        boardHeight: number = DEFAULT_BOARD_HEIGHT,
+        customMode: CustomMode | null = null,
+        puzzle: Puzzle | null = null,
+        setup: BoardSetup | null = null,
+        rules: ReplayRules | null = null
     ) {
-        const nextPieces = getRandomPiece([], CONFIG.PIECE_BAG_AMOUNT.value, true);
+        // A replay brings the rules it was recorded with, everything else plays by the config.
+        const random = new Random(seed);
+        const randomizer = rules?.randomizer ?? CONFIG.RANDOMIZER.value;
+        const pieceBagAmount = rules?.pieceBagAmount ?? CONFIG.PIECE_BAG_AMOUNT.value;
+        // Puzzles are made for the usual pieces with SRS.
+        const rotationSystem: RotationSystemType = puzzle
+            ? RotationSystemType.SRS
+            : rules?.rotationSystem ?? CONFIG.ROTATION_SYSTEM.value;
+        // The board editor only paints the usual pieces too.
+        const pieceSetDefinition =
+            puzzle || setup
+                ? PIECE_SETS[PieceSetType.Tetrominoes]
+                : rules?.pieceSet ??
+                  getPieceSetDefinition(CONFIG.PIECE_SET.value, CONFIG.CUSTOM_PIECE_SET.value);
+        const pieceSet = getPieceSet(rotationSystem, pieceSetDefinition);
+
+        const nextPieces = getRandomPiece([], pieceBagAmount, true, random, pieceSet, randomizer);
 
         // Taking the first piece of the queue.
         const currentPiece = nextPieces[0];
-        currentPiece.reset();
+        currentPiece.reset(boardWidth);
         nextPieces.shift();
 
-        getRandomPiece(nextPieces, CONFIG.PIECE_BAG_AMOUNT.value);
+        getRandomPiece(nextPieces, pieceBagAmount, false, random, pieceSet, randomizer);
 
         // Assigning the values.
         this.mode = gameMode;
@@ -89,20 +231,58 @@ export class Game {
 
         this.maxLines = maxLines;
         this.maxTime = maxTime;
-
-        this.board = new Board();
+        this.maxLevel = getMaxLevel(gameMode);
+
+        this.seed = seed;
+        this.random = random;
+        this.garbageRandom = new Random(getGarbageSeed(seed));
+        this.randomizer = randomizer;
+        this.pieceBagAmount = pieceBagAmount;
+
+        this.rotationSystem = rotationSystem;
+        this.pieceSet = pieceSet;
+        this.pieceSetDefinition = pieceSetDefinition;
+        applyPieceColors(pieceSetDefinition);
+
+        this.scoring = rules?.scoring ?? CONFIG.SCORING.value;
+        this.gravityTable = rules
+            ? rules.gravityTable.map((entry) => entry.slice())
+            : getGravityTable(CONFIG.GRAVITY_CURVE.value, CONFIG.CUSTOM_GRAVITY.value);
+        this.grading = null;
+        this.customMode = customMode;
+        this.puzzle = puzzle;
+        this.setup = setup;
+
+        this.board = new Board(null, boardWidth, boardHeight);
         this.currentPiece = currentPiece;
         this.nextPieces = nextPieces;
-        this.pieceCountList = [0, 0, 0, 0, 0, 0, 0];
+        this.pieceCountList = new Array(pieceSet.length).fill(0);
+        this.piecesPlaced = 0;
 
         this.shadowPiece = this.currentPiece.getShadowCoordinates(this.board);
+        this.showHint = CONFIG.HINT_OVERLAY.value && !recordsHighScore(gameMode) && !headless;
+        this.hint = null;
+        this.hintRequest = 0;
         this.holdPiece = null;
         this.canHold = true;
+        this.holdEnabled = true;
+        this.previewEnabled = true;
 
         this.lastMove = Move.None;
 
         this.backToBack = -1;
         this.currentCombo = -1;
+        this.comboLines = 0;
+
+        this.incomingGarbage = 0;
+        this.garbageCleared = 0;
+        this.garbageGoal = null;
+        this.garbageMinimum = 0;
+        this.garbageMessiness = CONFIG.GARBAGE_MESSINESS.value / 100;
+        this.garbagePieceInterval = null;
+        this.garbagePieces = 0;
+        this.riseTicksRemaining = null;
+        this.garbageRises = 0;
 
         this.currentDrop = 0;
 
@@ -110,87 +290,527 @@ export class Game {
         this.lineCount = 0;
         this.lineCountList = [0, 0, 0, 0];
         this.level = startLevel;
+        this.startLevel = startLevel;
         this.tSpinCountList = [0, 0];
 
         this.ticks = 0;
+        this.frame = 0;
         this.timer = new Timer();
 
-        this.lockTicksRemaining = CONFIG.PIECE_LOCK_TICKS.value;
+        this.lockTicks = rules?.lockTicks ?? CONFIG.PIECE_LOCK_TICKS.value;
+        this.spawnDelay = 0;
+        this.lineClearDelay = rules?.lineClearDelay ?? CONFIG.LINE_CLEAR_DELAY.value;
+        this.lockTicksRemaining = this.lockTicks;
         this.waitForLock = false;
         this.lockMoveResets = CONFIG.LOCK_MOVE_RESETS.value;
+        this.lineClearTicksRemaining = 0;
 
-        this.keyEvents = {
-            ArrowLeft: null,
-            ArrowRight: null,
-            ArrowDown: null
-        };
+        this.inputLog = [];
+
+        this.heldActions = [];
+
+        this.pieceInputs = 0;
+        this.pieceSoftDropped = false;
+        this.finesseFaults = 0;
+
+        this.headless = headless;
+        this.events = new EventBus<GameEvents>();
+        this.audioPlayer = new AudioPlayer(!headless);
+        this.audioPlayer.listen(this.events);
+
+        // Master always starts on level 0 with the gravity of TGM, and its own timings.
+        if (gameMode === Menu.Master) {
+            this.level = 0;
+            this.startLevel = 0;
+            this.gravityTable = TGM_GRAVITY;
+            this.grading = new MasterGrading();
+            this.applyMasterTimings();
+        }
+
+        // A cheese race and a dig start with the garbage already on the board.
+        this.garbageGoal = getGarbageGoal(gameMode);
+        if (gameMode === Menu.Cheese) {
+            // The refill never takes the room the pieces need to spawn, even on a smaller board.
+            this.garbageMinimum = Math.min(
+                CONFIG.CHEESE_MINIMUM_GARBAGE.value || boardHeight,
+                boardHeight - GARBAGE_SPAWN_ROOM
+            );
+        } else if (gameMode === Menu.Dig) {
+            this.garbageMinimum = Math.min(DIG_START_HEIGHT, boardHeight - GARBAGE_SPAWN_ROOM);
+            this.garbageMessiness = DIG_MESSINESS;
+            this.garbagePieceInterval = DIG_PIECES_PER_GARBAGE;
+        }
+
+        if (customMode) {
+            this.applyCustomMode(customMode);
+        }
+        if (puzzle) {
+            this.applyPuzzle(puzzle);
+        }
+        if (setup) {
+            this.applyBoardSetup(setup);
+        }
+        this.refillGarbage();
 
-        this.audioPlayer = new AudioPlayer();
+        if (gameMode === Menu.Survival) {
+            this.riseTicksRemaining = this.getRiseInterval();
+        }
 
         // Spawning the first piece.
         this.currentPiece.spawn(this.board);
+        this.settlePiece();
 
         this.incrementPieceCount();
+        this.updateHint();
     }
 
     /**
      * Starts a game properly.
+     * The game does not advance on its own, it needs a GameLoop (or a caller stepping it) for that.
      */
     start(): void {
-        this.frozen = false;
-        this.timer = new Timer();
-        this.audioPlayer.playSound('gameStart');
+        // A continued game might have been suspended in the middle of a line clear.
+        this.frozen = this.lineClearTicksRemaining > 0;
+        this.events.emit('start', {});
+    }
+
+    /**
+     * Saves the high score, the overall stats and the replay once the game is over.
+     * Headless games never touch the local storage.
+     */
+    saveResults(): void {
+        if (this.headless) {
+            return;
+        }
+
+        // Records only count on the usual board, a smaller one would make them a lot easier.
+        const newRecord =
+            recordsHighScore(this.mode) &&
+            this.hasDefaultBoard() &&
+            this.hasDefaultGarbage() &&
+            setHighScore(
+                this.mode,
+                this.score,
+                this.timer.currentTime,
+                this.over,
+                this.scoring,
+                this.grading ? this.grading.getGrade() : null,
+                this.customMode
+            );
+        incrementLifetimeStats(this);
+
+        const replay = createReplay(this);
+        saveReplay('last', replay);
+        if (newRecord) {
+            saveReplay(getBestReplayName(this.mode, this.customMode), replay);
+        }
+    }
+
+    /**
+     * If the game is played on a board with the usual size.
+     */
+    hasDefaultBoard(): boolean {
+        return (
+            this.board.width === DEFAULT_BOARD_WIDTH && this.board.height === DEFAULT_BOARD_HEIGHT
+        );
+    }
+
+    /**
+     * If a cheese race, survival or a custom mode with garbage is played with the default garbage,
+     * other settings would not make comparable records.
+     */
+    hasDefaultGarbage(): boolean {
+        const isDefault = (config: { defaultValue: string; value: number }) =>
+            config.value === Number(config.defaultValue);
+
+        switch (this.mode) {
+            case Menu.Cheese:
+                return (
+                    isDefault(CONFIG.CHEESE_LINES) &&
+                    isDefault(CONFIG.CHEESE_MINIMUM_GARBAGE) &&
+                    isDefault(CONFIG.GARBAGE_MESSINESS)
+                );
+            case Menu.Survival:
+                return (
+                    isDefault(CONFIG.SURVIVAL_INTERVAL) && isDefault(CONFIG.SURVIVAL_ACCELERATION)
+                );
+            case Menu.Custom:
+                return this.garbageGoal === null || isDefault(CONFIG.GARBAGE_MESSINESS);
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Performs the given actions and then advances the game by a single tick.
+     * This is the way to drive a headless game, for tests or bots.
+     */
+    step(actions: Action[] = []): void {
+        for (let i = 0; i < actions.length; i++) {
+            this.performAction(actions[i]);
+        }
+
         this.advanceTick();
     }
 
     /**
-     * Advances the game loop by one tick every 1/60th of a second.
+     * Advances the game by a single tick.
      */
     advanceTick(): void {
-        setTimeout(() => {
-            this.timer.update();
+        if (this.over || this.finished) {
+            return;
+        }
+
+        // The DAS goes first, so that its moves are recorded in the frame they happen in.
+        this.updateHeldActions();
+
+        this.frame++;
+        // The time is calculated from the frames, so that a game and its replay always show the same time.
+        // Ticks that the game loop had to drop (after the tab was in the background) do not count.
+        this.timer.update(ticksToMs(this.frame));
+
+        if (this.maxTime && this.timer.currentTime >= this.maxTime) {
+            // If the game is over, we manually un-pause,
+            // if it happens to be paused.
+            this.paused = false;
+            this.finished = true;
+            this.events.emit('finished', {});
+        }
+
+        this.updateCustomGoals();
+
+        // The line clear delay keeps running, even if the game is paused.
+        if (this.lineClearTicksRemaining > 0) {
+            this.lineClearTicksRemaining--;
+
+            if (this.lineClearTicksRemaining === 0) {
+                this.nextTurn();
+            }
 
-            if (this.maxTime && this.timer.currentTime >= this.maxTime) {
-                // If the game is over, we manually un-pause,
-                // if it happens to be paused.
-                this.paused = false;
+            return;
+        }
+
+        // If the game is paused we pretty much do nothing,
+        // except updating the timer and checking if it's over the limit.
+        if (!this.paused) {
+            this.ticks++;
+
+            // Checking if the game is finished.
+            if (
+                (this.maxLines && this.lineCount >= this.maxLines) ||
+                (this.maxLevel && this.level >= this.maxLevel) ||
+                // The garbage of a custom mode is only one of its targets, see updateCustomGoals().
+                (this.garbageGoal && !this.customMode && this.garbageCleared >= this.garbageGoal)
+            ) {
                 this.finished = true;
-                this.audioPlayer.playSound('gameFinished');
+                this.events.emit('finished', {});
+            }
+
+            // When the game is waiting for a locked piece to "finish",
+            // we decrement the timer
+            if (this.waitForLock) {
+                this.lockTicksRemaining--;
+                this.moveDown(false, false);
+            }
+
+            this.applyGravity();
+            this.updateRisingGarbage();
+        }
+    }
+
+    /**
+     * Moves the current piece down by the rows the gravity lets it fall on this tick.
+     * With fast gravity that can be multiple rows, or all the way down with 20G.
+     */
+    applyGravity(): void {
+        const piece = this.currentPiece;
+        const rows = getGravityRows(this.getGravity(), this.ticks, this.board.height);
+
+        // Once the piece locks, the rows that are left do not carry over to the next one.
+        for (let i = 0; i < rows && this.currentPiece === piece && !this.frozen; i++) {
+            const grounded = this.currentPiece.isGrounded(this.board);
+            this.moveDown(false, false);
+
+            if (grounded) {
+                break;
             }
+        }
+    }
+
+    /**
+     * Lets a newly spawned piece fall to the ground right away with 20G.
+     * If the piece appears on the ground, its lock delay starts right away, instead of once gravity moves it.
+     */
+    settlePiece(): void {
+        if (this.over) {
+            return;
+        }
 
-            // If the game is paused we pretty much do nothing,
-            // except updating the timer and checking if it's over the limit.
-            if (!this.paused || this.frozen) {
-                this.ticks++;
+        if (this.getGravity() >= INSTANT_GRAVITY) {
+            this.currentPiece.dropDown(this.board);
+        }
+
+        if (this.currentPiece.isGrounded(this.board)) {
+            this.waitForLock = true;
+        }
+
+        this.shadowPiece = this.currentPiece.getShadowCoordinates(this.board);
+    }
 
-                // Checking if the game is finished.
-                if (this.maxLines && this.lineCount >= this.maxLines) {
-                    this.finished = true;
-                    this.audioPlayer.playSound('gameFinished');
+    /**
+     * Starts holding down an action.
+     * The action is performed once immediately, and repeated with the DAS and ARR if it is a movement.
+     */
+    pressAction(action: Action): void {
+        if (this.over || this.finished) {
+            return;
+        }
+
+        if (
+            action !== Action.MoveLeft &&
+            action !== Action.MoveRight &&
+            action !== Action.SoftDrop
+        ) {
+            this.countInput(action);
+            this.performAction(action);
+            return;
+        }
+
+        // While the game is paused we do not want to start any DAS.
+        // Also if we are holding down the key anyways, we do not want to fire the action again.
+        if (this.paused || this.heldActions.some((h) => h.action === action)) {
+            return;
+        }
+
+        // A held down movement only counts as a single input, no matter how far the DAS moves the piece.
+        this.countInput(action);
+
+        // We also need to stop the action from the opposite direction,
+        // if the user happens to press both keys at once.
+        if (action === Action.MoveLeft) {
+            this.heldActions = this.heldActions.filter((h) => h.action !== Action.MoveRight);
+        } else if (action === Action.MoveRight) {
+            this.heldActions = this.heldActions.filter((h) => h.action !== Action.MoveLeft);
+        }
+
+        this.heldActions.push({ action: action, charge: 0, repeating: false });
+
+        // If the game is frozen this will not do anything just yet,
+        // but we still hold the action down since this is needed to buffer DAS.
+        this.performAction(action);
+    }
+
+    /**
+     * Counts a pressed key towards the inputs of the current piece.
+     */
+    countInput(action: Action): void {
+        if (this.paused || this.frozen) {
+            return;
+        }
+
+        if (action === Action.SoftDrop) {
+            this.pieceSoftDropped = true;
+        } else if (isFinesseInput(action)) {
+            this.pieceInputs++;
+        }
+    }
+
+    /**
+     * Compares the inputs used for the piece that just locked with the minimal inputs for its placement.
+     */
+    checkFinesse(): void {
+        if (this.pieceSoftDropped) {
+            return;
+        }
+
+        const minimal = getMinimalInputs(this.currentPiece, this.board.width);
+
+        if (minimal !== null && this.pieceInputs > minimal) {
+            this.finesseFaults++;
+            this.events.emit('finesseFault', {
+                piece: this.currentPiece.name,
+                inputs: this.pieceInputs,
+                minimal: minimal
+            });
+        }
+    }
+
+    /**
+     * Resets the finesse inputs, for a newly spawned piece.
+     */
+    resetFinesse(): void {
+        this.pieceInputs = 0;
+        this.pieceSoftDropped = false;
+    }
+
+    /**
+     * Stops holding down an action.
+     */
+    releaseAction(action: Action): void {
+        this.heldActions = this.heldActions.filter((h) => h.action !== action);
+
+        if (action === Action.SoftDrop) {
+            this.performAction(Action.ReleaseSoftDrop);
+        }
+    }
+
+    /**
+     * Repeats the held down actions, first after the DAS delay and then every X milliseconds (ARR).
+     */
+    updateHeldActions(): void {
+        // While paused, the DAS does not charge.
+        if (this.paused) {
+            return;
+        }
+
+        for (let i = 0; i < this.heldActions.length; i++) {
+            const held = this.heldActions[i];
+            held.charge += 1000 / 60;
+
+            if (!held.repeating) {
+                if (held.charge < CONFIG.DAS_DELAY.value) {
+                    continue;
                 }
 
-                // When the game is waiting for a locked piece to "finish",
-                // we decrement the timer
-                if (this.waitForLock) {
-                    this.lockTicksRemaining--;
-                    this.moveDown(false, false);
+                held.charge -= CONFIG.DAS_DELAY.value;
+                held.repeating = true;
+                this.performAction(held.action);
+            }
+
+            // With a fast ARR, an action can be repeated multiple times per tick.
+            const speed = Math.max(CONFIG.ARR_SPEED.value, 1);
+            while (held.charge >= speed) {
+                held.charge -= speed;
+                this.performAction(held.action);
+            }
+        }
+    }
+
+    /**
+     * Performs a single action of the player, like moving or rotating the current piece.
+     * Every action that changes the game gets written into the input log, for replays.
+     * Returns if the action succeeded.
+     */
+    performAction(action: Action): boolean {
+        // If the game is over we don't want to listen to any actions.
+        if (this.over || this.finished) {
+            return false;
+        }
+
+        let success = false;
+
+        switch (action) {
+            case Action.Pause:
+                this.paused = !this.paused;
+                this.events.emit('pause', { paused: this.paused });
+                success = true;
+                break;
+            case Action.ReleaseSoftDrop:
+                // Resetting the down counter when the player releases the down key.
+                this.currentDrop = 0;
+                this.lockTicksRemaining = this.lockTicks;
+                success = true;
+                break;
+            default:
+                // We don't want users to move a piece while it is frozen.
+                // This could lead to the piece not being in the full line anymore.
+                // We also don't want to listen to any other actions while the game is paused.
+                if (this.paused || this.frozen) {
+                    return false;
                 }
 
-                const threshold = this.getFallSpeed();
-                if (this.ticks % threshold === 0) {
-                    this.moveDown(false, false);
-                    this.ticks = 0;
+                success = this.performMove(action);
+                break;
+        }
+
+        if (success) {
+            this.inputLog.push([this.frame, action]);
+        }
+
+        return success;
+    }
+
+    /**
+     * Performs the actions that move the current piece (or the board) around.
+     * Returns if the move succeeded.
+     */
+    performMove(action: Action): boolean {
+        switch (action) {
+            case Action.MoveLeft:
+                if (this.currentPiece.moveLeft(this.board)) {
+                    this.resetLockDelay();
+                    this.lastMove = Move.Left;
+                    this.events.emit('move', { action: action });
+                    return true;
                 }
-            }
+                return false;
+            case Action.MoveRight:
+                if (this.currentPiece.moveRight(this.board)) {
+                    this.resetLockDelay();
+                    this.lastMove = Move.Right;
+                    this.events.emit('move', { action: action });
+                    return true;
+                }
+                return false;
+            case Action.SoftDrop:
+                this.moveDown(false, true);
+                // Incrementing the drop counter for every time the game registers a consecutive down press.
+                this.currentDrop += 1;
+                // When you hold down you probably do want the piece to lock instantly.
+                this.lockTicksRemaining = 0;
+                this.events.emit('move', { action: action });
+                return true;
+            case Action.HardDrop:
+                this.moveDown(true, true);
+                return true;
+            case Action.RotateCW:
+            case Action.RotateCCW:
+            case Action.Rotate180:
+                if (
+                    this.currentPiece.rotate(
+                        this.board,
+                        action !== Action.RotateCCW,
+                        action === Action.Rotate180
+                    )
+                ) {
+                    this.resetLockDelay();
+                    this.lastMove = Move.Rotation;
+                    this.events.emit('rotate', { action: action });
+                    return true;
+                }
+                return false;
+            case Action.Hold:
+                if (this.toggleHoldPiece()) {
+                    this.resetLockDelay();
+                    this.settlePiece();
+                    this.updateHint();
+                    return true;
+                }
+                return false;
+            case Action.InsertGarbage:
+                this.board.insertGarbageLines(2, this.currentPiece, this.garbageRandom);
+                this.resetLockDelay();
+                this.updateHint();
+                this.events.emit('garbage', { lines: 2 });
+                return true;
+            default:
+                return false;
+        }
+    }
 
-            if (!this.over && !this.finished) {
-                this.advanceTick();
-            } else {
-                // If the game is over, we set the high score and increment the overall stats.
-                setHighScore(this.mode, this.score, this.timer.currentTime, this.over);
-                incrementLifetimeStats(this);
+    /**
+     * When an action successfully completes, we update the lock ticks and the shadow piece coordinates.
+     */
+    resetLockDelay(): void {
+        this.lockTicksRemaining = this.lockTicks;
+        this.shadowPiece = this.currentPiece.getShadowCoordinates(this.board);
+
+        if (this.waitForLock) {
+            this.lockMoveResets--;
+            if (this.lockMoveResets === 0) {
+                this.lockTicksRemaining = 0;
             }
-        }, 1000 / 60);
+        }
     }
 
     /**
@@ -198,14 +818,14 @@ export class Game {
      */
     moveDown(drop: boolean, manual: boolean): void {
         if (drop) {
-            const scoreGain = 2 * this.currentPiece.dropDown(this.board);
-            this.score += scoreGain;
+            const rows = this.currentPiece.dropDown(this.board);
+            this.score += getScoringRuleset(this.scoring).getDropScore(rows, true, this.level);
 
-            if (scoreGain > 2 && manual) {
+            if (rows > 1 && manual) {
                 this.lastMove = Move.Drop;
             }
 
-            this.invokeNextTurn(CONFIG.LINE_CLEAR_DELAY.value);
+            this.invokeNextTurn(this.lineClearDelay, true);
         } else {
             const b = this.currentPiece.moveDown(this.board);
             if (!b) {
@@ -214,12 +834,14 @@ export class Game {
                 this.waitForLock = true;
                 // If the 30 ticks are up, we lock the piece for real.
                 if (this.lockTicksRemaining <= 0 && !this.frozen) {
-                    this.lockTicksRemaining = CONFIG.PIECE_LOCK_TICKS.value;
-                    this.score += this.currentDrop;
-
-                    this.audioPlayer.playSound('lock');
-
-                    this.invokeNextTurn(CONFIG.LINE_CLEAR_DELAY.value);
+                    this.lockTicksRemaining = this.lockTicks;
+                    this.score += getScoringRuleset(this.scoring).getDropScore(
+                        this.currentDrop,
+                        false,
+                        this.level
+                    );
+
+                    this.invokeNextTurn(this.lineClearDelay);
                 }
             } else {
                 if (manual) {
@@ -234,13 +856,23 @@ export class Game {
     }
 
     /**
-     * Invokes the next turn, after waiting X milliseconds.
+     * Invokes the next turn, after waiting X milliseconds (rounded to whole ticks) if lines were cleared,
+     * and the spawn delay on top.
      */
-    invokeNextTurn(delay: number): void {
+    invokeNextTurn(delay: number, hardDrop: boolean = false): void {
         const fullLines = this.board.getFullLines();
 
         this.currentDrop = 0;
-        this.lockTicksRemaining = CONFIG.PIECE_LOCK_TICKS.value;
+        this.lockTicksRemaining = this.lockTicks;
+        this.piecesPlaced++;
+
+        this.checkFinesse();
+
+        this.events.emit('pieceLocked', {
+            piece: this.currentPiece.name,
+            lines: fullLines.length,
+            hardDrop: hardDrop
+        });
 
         // First, we grey the pieces out if the user wishes to do so.
         // This is done here instead in the style options
@@ -254,24 +886,28 @@ export class Game {
             }
         }
 
+        // The garbage gets counted before the full lines turn white.
+        this.garbageCleared += fullLines.filter((line) =>
+            this.board.GameBoard[line].includes(GARBAGE_BLOCK)
+        ).length;
+
         // Setting the whole row to white blocks only.
         // But we only do so if the delay is great enough,
         // otherwise the effect will look weird.
         if (delay > 100) {
             for (let i = 0; i < fullLines.length; i++) {
-                this.board.GameBoard[fullLines[i]] = [9, 9, 9, 9, 9, 9, 9, 9, 9, 9];
+                this.board.GameBoard[fullLines[i]] = new Array(this.board.width).fill(9);
             }
         }
 
-        if (fullLines.length > 0) {
-            this.audioPlayer.playSound(`lineclear-${fullLines.length}`);
-        }
+        // The delay is counted in ticks, so that replays behave exactly the same.
+        const delayTicks =
+            (delay > 0 && fullLines.length > 0 ? Math.max(1, Math.round((delay / 1000) * 60)) : 0) +
+            this.spawnDelay;
 
-        if (delay > 0 && fullLines.length > 0) {
+        if (delayTicks > 0) {
             this.frozen = true;
-            setTimeout(() => {
-                this.nextTurn();
-            }, delay);
+            this.lineClearTicksRemaining = delayTicks;
         } else {
             this.nextTurn();
         }
@@ -292,14 +928,16 @@ export class Game {
         const fullLines = this.board.getFullLines();
 
         this.lineCount += fullLines.length;
-        this.lineCountList[fullLines.length - 1] += 1;
+        // Five lines at once (with pentominoes) are counted with the Tetrises.
+        this.lineCountList[Math.min(fullLines.length, this.lineCountList.length) - 1] += 1;
 
         // This detects the ongoing combo.
         if (fullLines.length !== 0) {
             this.currentCombo++;
-            this.score += 50 * this.level * this.currentCombo;
+            this.comboLines += fullLines.length;
         } else {
             this.currentCombo = -1;
+            this.comboLines = 0;
         }
 
         // This detects a T-Spin
@@ -307,16 +945,14 @@ export class Game {
 
         if (tSpin === TSpin.Mini) {
             this.tSpinCountList[0]++;
-            this.audioPlayer.playSound('tSpinMini');
         } else if (tSpin === TSpin.Full) {
             this.tSpinCountList[1]++;
-            this.audioPlayer.playSound('tSpinFull');
         }
 
         // This detects back-to-back "difficult moves"
         // Reference: https://tetris.wiki/Scoring#Recent_guideline_compatible_games
         if (fullLines.length > 0) {
-            if (fullLines.length === 4 || (fullLines.length > 0 && tSpin !== TSpin.None)) {
+            if (fullLines.length >= 4 || (fullLines.length > 0 && tSpin !== TSpin.None)) {
                 this.backToBack++;
             } else {
                 // If you clear a line that is not difficult, we reset the counter.
@@ -340,13 +976,68 @@ export class Game {
         });
         const fullClear = boardSum === 0 && fullLines.length > 0 ? true : false;
 
-        const multiplier = this.level * (this.backToBack > 0 ? 1.5 : 1);
+        const clear: GameEvents['lineClear'] = {
+            count: fullLines.length,
+            tSpin: tSpin,
+            b2b: fullLines.length > 0 && this.backToBack > 0,
+            combo: this.currentCombo,
+            perfectClear: fullClear
+        };
+
+        this.score += getScoringRuleset(this.scoring).getClearScore({
+            ...clear,
+            level: this.level,
+            comboLines: this.comboLines
+        });
+
+        if (fullLines.length > 0 || tSpin !== TSpin.None) {
+            this.events.emit('lineClear', clear);
+        }
 
-        this.score += this.getScore(fullLines.length, multiplier, tSpin, fullClear);
+        if (this.puzzle && isPuzzleSolved(this.puzzle.objective, clear, this.lineCount)) {
+            this.finished = true;
+            this.events.emit('finished', {});
+            return;
+        }
 
-        if (this.lineCount / 10 >= this.level) {
-            this.audioPlayer.playSound('levelUp');
+        if (this.grading) {
+            this.updateMasterLevel(fullLines.length);
+        } else if (this.lineCount / 10 >= this.level) {
             this.level++;
+            this.events.emit('levelUp', { level: this.level });
+        }
+
+        // The incoming garbage only rises if the piece did not clear any lines.
+        if (fullLines.length === 0 && this.incomingGarbage > 0) {
+            this.board.insertGarbageLines(this.incomingGarbage, null, this.garbageRandom);
+            this.events.emit('garbage', { lines: this.incomingGarbage });
+            this.incomingGarbage = 0;
+        }
+
+        // A dig pushes up more garbage after every few pieces that did not clear a line.
+        if (this.garbagePieceInterval && fullLines.length === 0) {
+            this.garbagePieces++;
+
+            if (this.garbagePieces >= this.garbagePieceInterval) {
+                this.garbagePieces = 0;
+                this.refillGarbage(1);
+            }
+        } else {
+            this.garbagePieces = 0;
+        }
+
+        this.refillGarbage();
+
+        // A puzzle only has its own pieces, once they are all used up the puzzle is failed.
+        // The held piece still gets played last.
+        if (this.puzzle && this.nextPieces.length === 0) {
+            if (!this.holdPiece) {
+                this.fail();
+                return;
+            }
+
+            this.nextPieces.push(this.holdPiece);
+            this.holdPiece = null;
         }
 
         // We get the new piece from the stack of next pieces.
@@ -358,12 +1049,11 @@ export class Game {
         // Checking if the piece can spawn, if not this is an automatic game over.
         const b = this.currentPiece.spawn(this.board);
         if (!b) {
-            this.over = true;
-            this.audioPlayer.playSound('gameOver');
+            this.topOut();
         }
 
         // Then we populate the queue some more if it needs it.
-        this.nextPieces = getRandomPiece(this.nextPieces, CONFIG.PIECE_BAG_AMOUNT.value);
+        this.refillQueue();
         // Then we remove the first piece from the piece queue.
         this.nextPieces.shift();
 
@@ -372,8 +1062,41 @@ export class Game {
         this.canHold = true;
         this.waitForLock = false;
         this.lockMoveResets = CONFIG.LOCK_MOVE_RESETS.value;
+        this.resetFinesse();
 
-        this.shadowPiece = this.currentPiece.getShadowCoordinates(this.board);
+        this.settlePiece();
+        this.updateHint();
+    }
+
+    /**
+     * Looks for the best placement of the new piece, if the hint overlay is shown.
+     * The search runs in the background, the old hint is gone until it is done.
+     */
+    updateHint(): void {
+        this.hint = null;
+        this.hintRequest++;
+
+        if (this.showHint && !this.over) {
+            requestHint(this);
+        }
+    }
+
+    /**
+     * Adds garbage lines to the incoming garbage, they get inserted after the next piece locks.
+     */
+    queueGarbage(lines: number): void {
+        this.incomingGarbage += lines;
+    }
+
+    /**
+     * Cancels the incoming garbage with the lines of an attack.
+     * Returns the lines that are left over, which get sent to the opponent.
+     */
+    cancelGarbage(lines: number): number {
+        const cancelled = Math.min(lines, this.incomingGarbage);
+        this.incomingGarbage -= cancelled;
+
+        return lines - cancelled;
     }
 
     /**
@@ -382,11 +1105,18 @@ export class Game {
      */
     toggleHoldPiece(): boolean {
         // You can only hold a piece one time per turn, otherwise you could just stall forever.
-        if (!this.canHold) {
+        if (!this.canHold || !this.holdEnabled) {
             return false;
         }
 
-        this.audioPlayer.playSound('holdPiece');
+        // The last piece of a puzzle cannot be held, there would be nothing coming after it.
+        if (!this.holdPiece && this.nextPieces.length === 0) {
+            return false;
+        }
+
+        this.events.emit('hold', { piece: this.currentPiece.name });
+        // The inputs before holding do not count, the piece coming out of hold starts fresh.
+        this.resetFinesse();
 
         // Despawning the current piece.
         const pieceCoordinates = this.currentPiece.getCoordinates();
@@ -407,11 +1137,11 @@ export class Game {
             // Checking if the piece can spawn, if not this is an automatic game over.
             const b = this.currentPiece.spawn(this.board);
             if (!b) {
-                this.over = true;
+                this.topOut();
             }
 
             // Then we populate the queue some more if it needs it.
-            this.nextPieces = getRandomPiece(this.nextPieces, CONFIG.PIECE_BAG_AMOUNT.value);
+            this.refillQueue();
             // Then we remove the first piece from the piece queue.
             this.nextPieces.shift();
 
@@ -450,68 +1180,43 @@ export class Game {
             return tSpin;
         }
 
-        let frontLeft = [0, 0];
-        let frontRight = [0, 0];
-        let backLeft = [0, 0];
-        let backRight = [0, 0];
+        // The corners come from the rotation system, its T may point another way in the same state.
+        const corners =
+            ROTATION_SYSTEMS[this.currentPiece.rotationSystem].tSpinCorners[
+                this.currentPiece.currentRotation
+            ];
 
-        switch (this.currentPiece.currentRotation) {
-            case 0:
-                frontLeft = [this.currentPiece.offset[0], this.currentPiece.offset[1]];
-                frontRight = [this.currentPiece.offset[0], this.currentPiece.offset[1] + 2];
-                backLeft = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1]];
-                backRight = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1] + 2];
-                break;
-            case 1:
-                frontLeft = [this.currentPiece.offset[0], this.currentPiece.offset[1] + 2];
-                frontRight = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1] + 2];
-                backLeft = [this.currentPiece.offset[0], this.currentPiece.offset[1]];
-                backRight = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1]];
-                break;
-            case 2:
-                frontLeft = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1]];
-                frontRight = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1] + 2];
-                backLeft = [this.currentPiece.offset[0], this.currentPiece.offset[1]];
-                backRight = [this.currentPiece.offset[0], this.currentPiece.offset[1] + 2];
-                break;
-            case 3:
-                frontLeft = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1]];
-                frontRight = [this.currentPiece.offset[0], this.currentPiece.offset[1]];
-                backLeft = [this.currentPiece.offset[0], this.currentPiece.offset[1] + 2];
-                backRight = [this.currentPiece.offset[0] + 2, this.currentPiece.offset[1] + 2];
-                break;
-            default:
-                break;
+        if (!corners) {
+            return tSpin;
         }
 
-        // We check how many of the pieces are occupied.
-        // If 2 front pieces and 1 back piece is occupied by another block, this counts as a proper T-Spin.
-        // If 2 back pieces and 1 front piece are occupied, it is a Mini T-Spin.
+        const centre = [
+            this.currentPiece.offset[0] + corners.centre[0],
+            this.currentPiece.offset[1] + corners.centre[1]
+        ];
+
+        // We check how many of the corners are occupied.
+        // If 2 front corners and 1 back corner are occupied by another block, it is a full T-Spin.
+        // If 2 back corners and 1 front corner are occupied, it is a Mini T-Spin.
+        // Corners outside of the board (against a wall or the floor) count as occupied.
         let backPiecesOccupied = 0;
         let frontPiecesOccupied = 0;
 
-        // The front pieces cannot be undefined by default, but the back pieces could.
-        // If the back pieces are against the wall (thus are undefined), these also count as an occupied piece.
-        if (this.board.GameBoard[frontLeft[0]][frontLeft[1]] !== 0) {
-            frontPiecesOccupied++;
-        }
-
-        if (this.board.GameBoard[frontRight[0]][frontRight[1]] !== 0) {
-            frontPiecesOccupied++;
-        }
-
-        if (
-            this.board.GameBoard[backLeft[0]] === undefined ||
-            this.board.GameBoard[backLeft[0]][backLeft[1]] !== 0
-        ) {
-            backPiecesOccupied++;
-        }
+        for (const [i, j] of [
+            [-1, -1],
+            [-1, 1],
+            [1, -1],
+            [1, 1]
+        ]) {
+            if (this.board.GameBoard[centre[0] + i]?.[centre[1] + j] === 0) {
+                continue;
+            }
 
-        if (
-            this.board.GameBoard[backRight[0]] === undefined ||
-            this.board.GameBoard[backRight[0]][backRight[1]] !== 0
-        ) {
-            backPiecesOccupied++;
+            if (corners.front.some((corner) => corner[0] === i && corner[1] === j)) {
+                frontPiecesOccupied++;
+            } else {
+                backPiecesOccupied++;
+            }
         }
 
         if (frontPiecesOccupied == 2 && backPiecesOccupied > 0) {
@@ -524,8 +1229,8 @@ export class Game {
     }
 
     /**
-     * Gets the score depending on the amount of lines cleared and the current level.
-     * Taken from: https://tetris.wiki/Scoring#Recent_guideline_compatible_games
+     * Gets the guideline score depending on the amount of lines cleared and the multiplier.
+     * The score of a game comes from its scoring ruleset, see scoring.ts.
      */
     getScore(
         linesCleared: number,
@@ -533,117 +1238,260 @@ export class Game {
         tSpin: TSpin = TSpin.None,
         fullClear: boolean = false
     ): number {
-        if (tSpin === TSpin.Mini) {
-            switch (linesCleared) {
-                case 0:
-                    return 100 * multiplier;
-                case 1:
-                    return 200 * multiplier;
-                case 2:
-                    return 400 * multiplier;
-                // A Mini-T-Spin triple is not possible.
-                default:
-                    return 0;
-            }
+        return getGuidelineScore(linesCleared, multiplier, tSpin, fullClear);
+    }
+
+    /**
+     * Gets the gravity of the current level in G, the rows a piece falls per tick.
+     */
+    getGravity(): number {
+        return findGravity(this.gravityTable, this.level);
+    }
+
+    /**
+     * Ends the game once the stack reached the top.
+     * In some modes that is the normal end of a run, so the game gets finished instead of being over.
+     */
+    topOut(): void {
+        if (endsWithTopOut(this.mode)) {
+            this.finished = true;
+        } else {
+            this.over = true;
         }
 
-        if (tSpin === TSpin.Full) {
-            switch (linesCleared) {
-                case 0:
-                    return 400 * multiplier;
-                case 1:
-                    return 800 * multiplier;
-                case 2:
-                    return 1200 * multiplier;
-                case 3:
-                    return 1600 * multiplier;
-                default:
-                    return 0;
-            }
+        this.events.emit('topOut', {});
+    }
+
+    /**
+     * Ends the game because its goal can no longer be reached, while there is still room on the board.
+     */
+    fail(): void {
+        this.over = true;
+        this.events.emit('failed', {});
+    }
+
+    /**
+     * Counts down to the next garbage line of survival, and lets it rise.
+     * The stack being pushed out of the top of the board is a top out.
+     */
+    updateRisingGarbage(): void {
+        if (this.riseTicksRemaining === null || this.over || this.finished) {
+            return;
+        }
+
+        this.riseTicksRemaining--;
+
+        if (this.riseTicksRemaining > 0) {
+            return;
+        }
+
+        if (this.board.firstRowsNotEmpty(this.currentPiece, 1)) {
+            this.topOut();
+            return;
+        }
+
+        this.board.insertGarbageLines(1, this.currentPiece, this.garbageRandom);
+        this.garbageRises++;
+        this.riseTicksRemaining = this.getRiseInterval();
+
+        // The piece might have been pushed onto the ground.
+        this.shadowPiece = this.currentPiece.getShadowCoordinates(this.board);
+        this.updateHint();
+        this.events.emit('garbage', { lines: 1 });
+    }
+
+    /**
+     * Gets the ticks until the next garbage line rises in survival, see getRiseInterval().
+     */
+    getRiseInterval(): number {
+        return getRiseInterval(
+            CONFIG.SURVIVAL_INTERVAL.value,
+            CONFIG.SURVIVAL_ACCELERATION.value,
+            this.garbageRises
+        );
+    }
+
+    /**
+     * Inserts garbage lines from the garbage generator at the bottom of the board.
+     * The holes continue from the garbage that is already there.
+     */
+    addGarbage(amount: number, currentPiece: Piece | null): void {
+        const bottomRow = this.board.GameBoard[this.board.height - 1];
+        const lines = generateGarbageLines(
+            amount,
+            this.board.width,
+            this.garbageMessiness,
+            this.garbageRandom,
+            bottomRow.includes(GARBAGE_BLOCK) ? bottomRow.indexOf(0) : null
+        );
+
+        this.board.insertLines(lines, currentPiece);
+    }
+
+    /**
+     * Fills the garbage back up to the minimum (plus some extra lines on top),
+     * as long as the goal still has garbage left to come up.
+     */
+    refillGarbage(extra: number = 0): void {
+        if (!this.garbageGoal) {
+            return;
         }
 
-        if (fullClear) {
-            switch (linesCleared) {
-                case 1:
-                    return 800 * multiplier;
-                case 2:
-                    return 1200 * multiplier;
-                case 3:
-                    return 1800 * multiplier;
-                case 4:
-                    return 2000 * multiplier;
-                default:
-                    return 0;
+        const garbageLines = this.board.getGarbageLineCount();
+        const amount = Math.min(
+            Math.max(this.garbageMinimum - garbageLines, 0) + extra,
+            this.garbageGoal - this.garbageCleared - garbageLines
+        );
+
+        if (amount > 0) {
+            this.addGarbage(amount, null);
+
+            if (extra > 0) {
+                this.events.emit('garbage', { lines: amount });
             }
         }
+    }
 
-        switch (linesCleared) {
-            case 1:
-                return 100 * multiplier;
-            case 2:
-                return 300 * multiplier;
-            case 3:
-                return 500 * multiplier;
-            case 4:
-                return 800 * multiplier;
-            default:
-                return 0;
+    /**
+     * Advances the level of a Master game after a piece locked, see getNextMasterLevel().
+     * Finishing a section gets timed for the grade, and speeds up the timings.
+     */
+    updateMasterLevel(lines: number): void {
+        if (!this.grading) {
+            return;
+        }
+
+        this.level = getNextMasterLevel(this.level, lines);
+
+        if (this.grading.update(this.level, this.timer.currentTime)) {
+            this.applyMasterTimings();
+            this.events.emit('levelUp', { level: this.level });
         }
     }
 
     /**
-     * Gets the amount of seconds before a piece falls down by one grid.
-     * These are from the original NES Version of Tetris (But we start at level 1 instead of 0).
-     * The original game runs at 60(~ish) frames per second.
+     * Sets the lock delay, spawn delay and line clear delay of the current Master section.
      */
-    getFallSpeed(): number {
-        if (this.level < 10) {
-            // It scales linearly up until NES Level 8 (Our Level 9).
-            return 53 - 5 * this.level;
-        } else if (this.level < 11) {
-            return 6;
-        } else if (this.level < 14) {
-            return 5;
-        } else if (this.level < 17) {
-            return 4;
-        } else if (this.level < 20) {
-            return 3;
-        } else if (this.level < 30) {
-            return 2;
+    applyMasterTimings(): void {
+        const timings = getMasterTimings(this.level);
+
+        this.lockTicks = timings.lockTicks;
+        this.spawnDelay = timings.are;
+        this.lineClearDelay = ticksToMs(timings.lineClearTicks);
+    }
+
+    /**
+     * Sets up the level, gravity, starting board and garbage of a custom mode.
+     * A garbage target keeps the garbage of the starting board topped up, like in a cheese race.
+     */
+    applyCustomMode(mode: CustomMode): void {
+        this.level = mode.startLevel;
+        this.startLevel = mode.startLevel;
+        this.holdEnabled = mode.hold;
+        this.previewEnabled = mode.preview;
+
+        if (mode.gravity !== null) {
+            this.gravityTable = [[0, mode.gravity]];
+        }
+
+        this.board.insertLines(getCustomBoardLines(mode.board, this.board.width), null);
+
+        this.garbageGoal = mode.garbage;
+        this.garbageMinimum =
+            this.board.getGarbageLineCount() ||
+            Math.min(DIG_START_HEIGHT, this.board.height - GARBAGE_SPAWN_ROOM);
+    }
+
+    /**
+     * Ends a custom game once its goals are reached, or one of its limits runs out.
+     */
+    updateCustomGoals(): void {
+        if (!this.customMode || this.over || this.finished) {
+            return;
+        }
+
+        const result = getCustomModeResult(this.customMode, {
+            lines: this.lineCount,
+            score: this.score,
+            garbage: this.garbageCleared,
+            time: this.timer.currentTime,
+            pieces: this.piecesPlaced
+        });
+
+        if (result === null) {
+            return;
+        }
+
+        this.paused = false;
+
+        if (result) {
+            this.finished = true;
+            this.events.emit('finished', {});
         } else {
-            return 1;
+            this.fail();
         }
     }
 
+    /**
+     * Sets up the starting board and the pieces of a puzzle.
+     */
+    applyPuzzle(puzzle: Puzzle): void {
+        this.holdEnabled = puzzle.hold;
+        this.board.insertLines(getCustomBoardLines(puzzle.board, this.board.width), null);
+
+        const pieces = puzzle.pieces
+            .split('')
+            .map((name) => this.pieceSet.find((p) => p.name === name)!.clone());
+
+        this.currentPiece = pieces[0];
+        this.currentPiece.reset(this.board.width);
+        this.nextPieces = pieces.slice(1);
+    }
+
+    /**
+     * Sets up the board and the pieces of a setup from the board editor.
+     * The randomizer fills up the queue after the pieces of the setup.
+     */
+    applyBoardSetup(setup: BoardSetup): void {
+        this.board.insertLines(getCustomBoardLines(setup.board, this.board.width), null);
+
+        const getPiece = (name: string): Piece =>
+            this.pieceSet.find((p) => p.name === name)!.clone();
+
+        this.currentPiece = getPiece(setup.current);
+        this.currentPiece.reset(this.board.width);
+        this.holdPiece = setup.hold ? getPiece(setup.hold) : null;
+        this.nextPieces = setup.queue.split('').map(getPiece);
+        this.refillQueue();
+    }
+
+    /**
+     * Fills the queue of next pieces back up from the randomizer.
+     * A puzzle only has the pieces it comes with.
+     */
+    refillQueue(): void {
+        if (this.puzzle) {
+            return;
+        }
+
+        this.nextPieces = getRandomPiece(
+            this.nextPieces,
+            this.pieceBagAmount,
+            false,
+            this.random,
+            this.pieceSet,
+            this.randomizer
+        );
+    }
+
     /**
      * Increments the piece counter for each individual piece.
      */
     incrementPieceCount(): void {
-        // Incrementing the individual piece counts.
-        switch (this.currentPiece.name) {
-            case 'I':
-                this.pieceCountList[0] += 1;
-                break;
-            case 'J':
-                this.pieceCountList[1] += 1;
-                break;
-            case 'L':
-                this.pieceCountList[2] += 1;
-                break;
-            case 'O':
-                this.pieceCountList[3] += 1;
-                break;
-            case 'S':
-                this.pieceCountList[4] += 1;
-                break;
-            case 'Z':
-                this.pieceCountList[5] += 1;
-                break;
-            case 'T':
-                this.pieceCountList[6] += 1;
-                break;
-            default:
-                break;
+        const index = this.pieceSet.findIndex((p) => p.name === this.currentPiece.name);
+
+        if (index !== -1) {
+            this.pieceCountList[index] += 1;
         }
     }
 }
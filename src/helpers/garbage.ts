@@ -0,0 +1,148 @@
+import { GARBAGE_BLOCK } from './board';
+import type { Random } from './rng';
+import type { GameEvents } from './types';
+import { TSpin } from './types';
+
+/**
+ * The garbage lines sent for normal line clears, by the amount of lines cleared.
+ * A pentomino clearing five lines sends as much as a Tetris.
+ */
+export const LINE_CLEAR_ATTACK = [0, 0, 1, 2, 4];
+
+/**
+ * The garbage lines sent for T-Spins, by the amount of lines cleared.
+ */
+export const T_SPIN_ATTACK = [0, 2, 4, 6];
+export const T_SPIN_MINI_ATTACK = [0, 0, 1];
+
+/**
+ * The extra garbage lines sent for combos, by the current combo.
+ * Anything above the table sends the last value.
+ */
+export const COMBO_ATTACK = [0, 0, 1, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5];
+
+export const BACK_TO_BACK_ATTACK = 1;
+export const PERFECT_CLEAR_ATTACK = 10;
+
+/**
+ * Gets the amount of garbage lines a line clear sends to the opponent.
+ * Loosely based on: https://tetris.wiki/Tetris_Guideline#Garbage
+ */
+export const getAttack = (clear: GameEvents['lineClear']): number => {
+    if (clear.count === 0) {
+        return 0;
+    }
+
+    let attack = 0;
+
+    if (clear.tSpin === TSpin.Full) {
+        attack = T_SPIN_ATTACK[clear.count] ?? 0;
+    } else if (clear.tSpin === TSpin.Mini) {
+        attack = T_SPIN_MINI_ATTACK[clear.count] ?? 0;
+    } else {
+        attack = LINE_CLEAR_ATTACK[Math.min(clear.count, LINE_CLEAR_ATTACK.length - 1)];
+    }
+
+    if (clear.b2b) {
+        attack += BACK_TO_BACK_ATTACK;
+    }
+
+    if (clear.combo > 0) {
+        attack += COMBO_ATTACK[Math.min(clear.combo, COMBO_ATTACK.length - 1)];
+    }
+
+    if (clear.perfectClear) {
+        attack += PERFECT_CLEAR_ATTACK;
+    }
+
+    return attack;
+};
+
+/**
+ * A preset for the messiness of the garbage.
+ */
+export interface GarbagePreset {
+    name: string;
+    // In percent, see generateGarbageLines().
+    messiness: number;
+}
+
+/**
+ * Clean garbage keeps the holes in one column, messy garbage moves them on every line.
+ */
+export const GARBAGE_PRESETS: GarbagePreset[] = [
+    { name: 'CLEAN', messiness: 0 },
+    { name: 'MESSY', messiness: 100 }
+];
+
+/**
+ * The rows at the top of the board that never get filled up with garbage from the start,
+ * so that the pieces can still spawn.
+ */
+export const GARBAGE_SPAWN_ROOM = 4;
+
+/**
+ * The garbage lines a dig starts with, and keeps at least until all of its garbage came up.
+ */
+export const DIG_START_HEIGHT = 12;
+
+/**
+ * In a dig, a garbage line comes up after this many pieces in a row that did not clear a line.
+ */
+export const DIG_PIECES_PER_GARBAGE = 3;
+
+/**
+ * The garbage of a dig is always messy.
+ */
+export const DIG_MESSINESS = 1;
+
+/**
+ * Generates lines of garbage, each with one hole, in the order they get inserted below each other.
+ * The messiness (0 - 1) is the chance that the hole of a line moves to another column than the hole above.
+ * The first hole is random, unless the hole of the line above is given.
+ */
+export const generateGarbageLines = (
+    amount: number,
+    width: number,
+    messiness: number,
+    random: Random,
+    lastHole: number | null = null
+): number[][] => {
+    const lines: number[][] = [];
+    let hole = lastHole;
+
+    for (let i = 0; i < amount; i++) {
+        if (hole === null) {
+            hole = random.nextInt(width);
+        } else if (width > 1 && random.next() < messiness) {
+            // Any column but the one before, so that the hole really moves.
+            hole = (hole + 1 + random.nextInt(width - 1)) % width;
+        }
+
+        const line = new Array(width).fill(GARBAGE_BLOCK);
+        line[hole] = 0;
+        lines.push(line);
+    }
+
+    return lines;
+};
+
+/**
+ * The shortest time between two garbage rises in survival, in milliseconds.
+ */
+export const SURVIVAL_MIN_INTERVAL = 1000;
+
+/**
+ * The ticks before a garbage rise in survival, in which the danger glow already counts the rising line.
+ */
+export const RISE_WARNING_TICKS = 60;
+
+/**
+ * Gets the time until the next garbage rise in survival, in ticks.
+ * The interval (in milliseconds) shrinks by the acceleration (in percent) with every rise.
+ */
+export const getRiseInterval = (interval: number, acceleration: number, rises: number): number => {
+    const ms = Math.max(interval * Math.pow(1 - acceleration / 100, rises), SURVIVAL_MIN_INTERVAL);
+
+    return Math.max(1, Math.round((ms / 1000) * 60));
+};
@@ -0,0 +1,203 @@
+/**
+ * The gravity curves a player can choose from.
+ * The value gets saved in the config, so new curves have to be added at the end.
+ */
+export enum GravityCurveType {
+    NES,
+    Guideline,
+    TGM,
+    Custom
+}
+
+/**
+ * A gravity curve, the table holds [level, gravity] entries sorted by level.
+ * Gravity is measured in G, the rows a piece falls per tick (1/60th of a second).
+ * Every entry applies from its level on, until the next one.
+ */
+export interface GravityCurve {
+    name: string;
+    table: number[][];
+}
+
+/**
+ * At 20G, pieces fall all the way down the moment they appear.
+ */
+export const INSTANT_GRAVITY = 20;
+
+/**
+ * Looks up the gravity of a level in a gravity table.
+ * Levels below the first entry use the first entry.
+ */
+export const findGravity = (table: number[][], level: number): number => {
+    let gravity = table[0][1];
+
+    for (let i = 1; i < table.length && table[i][0] <= level; i++) {
+        gravity = table[i][1];
+    }
+
+    return gravity;
+};
+
+/**
+ * The gravity of Tetris The Grand Master, by its internal level (0 - 999).
+ * The arcade counts gravity in 1/256th of a row per frame, so it is kept that way here.
+ *
+ * See more information here: https://tetris.wiki/Tetris_The_Grand_Master#Speed_timings
+ */
+export const TGM_GRAVITY: number[][] = [
+    [0, 4],
+    [30, 6],
+    [35, 8],
+    [40, 10],
+    [50, 12],
+    [60, 16],
+    [70, 32],
+    [80, 48],
+    [90, 64],
+    [100, 80],
+    [120, 96],
+    [140, 112],
+    [160, 128],
+    [170, 144],
+    [200, 4],
+    [220, 32],
+    [230, 64],
+    [233, 96],
+    [236, 128],
+    [239, 160],
+    [243, 192],
+    [247, 224],
+    [251, 256],
+    [300, 512],
+    [330, 768],
+    [360, 1024],
+    [400, 1280],
+    [420, 1024],
+    [450, 768],
+    [500, 5120]
+].map((entry) => [entry[0], entry[1] / 256]);
+
+/**
+ * The gravity of the NES version, which counts the frames it takes a piece to fall down by one row.
+ * We start at level 1 instead of 0.
+ */
+const nesGravity: number[][] = [
+    [1, 48],
+    [2, 43],
+    [3, 38],
+    [4, 33],
+    [5, 28],
+    [6, 23],
+    [7, 18],
+    [8, 13],
+    [9, 8],
+    [10, 6],
+    [11, 5],
+    [14, 4],
+    [17, 3],
+    [20, 2],
+    [30, 1]
+].map((entry) => [entry[0], 1 / entry[1]]);
+
+/**
+ * The gravity of modern games, where a piece takes (0.8 - ((level - 1) * 0.007))^(level - 1) seconds per row.
+ * This reaches 20G on level 19, and the guideline does not go further than level 20.
+ *
+ * See more information here: https://tetris.wiki/Marathon
+ */
+const guidelineGravity: number[][] = Array.from({ length: 20 }, (_, i) => {
+    const seconds = Math.pow(0.8 - i * 0.007, i);
+
+    return [i + 1, Math.min(1 / (seconds * 60), INSTANT_GRAVITY)];
+});
+
+// With the TGM curve, one of our levels (10 lines) covers this many levels of the arcade.
+const TGM_LEVELS_PER_LEVEL = 25;
+
+/**
+ * The gravity of TGM stretched over our levels, so that 20G starts on level 21.
+ */
+const tgmGravity: number[][] = Array.from({ length: 21 }, (_, i) => [
+    i + 1,
+    findGravity(TGM_GRAVITY, i * TGM_LEVELS_PER_LEVEL)
+]);
+
+/**
+ * The gravity curves, in the order of the GravityCurveType enum.
+ * The custom curve is not in here, it comes from the config.
+ */
+export const GRAVITY_CURVES: GravityCurve[] = [
+    { name: 'NES', table: nesGravity },
+    { name: 'GUIDELINE', table: guidelineGravity },
+    { name: 'TGM', table: tgmGravity }
+];
+
+/**
+ * Gets the amount of rows a piece falls on a tick, with the given gravity.
+ * The ticks are counted since the piece spawned, so that fractional gravity adds up exactly.
+ */
+export const getGravityRows = (gravity: number, ticks: number, boardHeight: number): number => {
+    if (gravity >= INSTANT_GRAVITY) {
+        return boardHeight;
+    }
+
+    // A tiny bit extra, so that 48 ticks of 1/48G add up to a whole row, despite rounding errors.
+    return Math.floor(ticks * gravity + 1e-9) - Math.floor((ticks - 1) * gravity + 1e-9);
+};
+
+/**
+ * Reads a user defined gravity table from JSON. Throws an error if it cannot be used.
+ *
+ * The format is a list of [level, gravity in G] entries, for example:
+ * [[1, 0.02], [5, 0.1], [10, 1], [15, 20]]
+ */
+export const parseGravityTable = (text: string): number[][] => {
+    let table: number[][];
+
+    try {
+        table = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A GRAVITY TABLE');
+    }
+
+    if (!Array.isArray(table)) {
+        throw new Error('NOT A GRAVITY TABLE');
+    }
+
+    if (table.length === 0) {
+        throw new Error('THE GRAVITY TABLE IS EMPTY');
+    }
+
+    for (let i = 0; i < table.length; i++) {
+        const entry = table[i];
+
+        if (
+            !Array.isArray(entry) ||
+            entry.length !== 2 ||
+            !Number.isInteger(entry[0]) ||
+            entry[0] < 1 ||
+            typeof entry[1] !== 'number' ||
+            !(entry[1] > 0)
+        ) {
+            throw new Error(`ENTRY ${i + 1} IS INVALID`);
+        }
+    }
+
+    return table.map((entry) => entry.slice()).sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Gets the gravity table of a curve.
+ * If the custom table cannot be read (anymore), the NES curve is used instead.
+ */
+export const getGravityTable = (type: GravityCurveType, customGravity: string = ''): number[][] => {
+    if (type !== GravityCurveType.Custom) {
+        return (GRAVITY_CURVES[type] ?? GRAVITY_CURVES[GravityCurveType.NES]).table;
+    }
+
+    try {
+        return parseGravityTable(customGravity);
+    } catch {
+        return nesGravity;
+    }
+};
@@ -0,0 +1,68 @@
+import { getBotRequest } from './bot';
+import { findBestMove, type BotMove } from './botSearch';
+import type { Game } from './game';
+import { Action, type Hint } from './types';
+
+// The worker searching for hints, shared by every game. It gets started with the first hint.
+let worker: Worker | null = null;
+// The games waiting for an answer, with the search they are waiting for, oldest first.
+// The worker answers in the same order.
+const pending: { game: Game; request: number }[] = [];
+
+/**
+ * Turns a move of the bot into the hint for the current piece.
+ */
+const getMoveHint = (game: Game, move: BotMove | null): Hint | null => {
+    if (!move) {
+        return null;
+    }
+
+    const piece = game.pieceSet.find((p) => p.name === move.piece.name)!.clone();
+    piece.currentRotation = move.piece.rotation;
+    piece.offset = move.piece.offset.slice();
+
+    return {
+        piece: piece.name,
+        coordinates: piece.getCoordinates(),
+        hold: move.actions[0] === Action.Hold
+    };
+};
+
+/**
+ * Gets the best placement for the current piece, as rated by the bot.
+ * The hold piece and the following piece are taken into account as well.
+ */
+export const getHint = (game: Game): Hint | null => {
+    return getMoveHint(game, findBestMove(getBotRequest(game, null, true)));
+};
+
+/**
+ * Searches for the hint of the current piece in the worker of the bot,
+ * so that the search never stalls the game loop.
+ * The hint gets set once the worker answers, unless the game asked for another one in the meantime.
+ * Without web workers (for example in tests) it runs right away instead.
+ */
+export const requestHint = (
+    game: Game,
+    useWorker: boolean = typeof Worker !== 'undefined'
+): void => {
+    if (!useWorker) {
+        game.hint = getHint(game);
+        return;
+    }
+
+    if (!worker) {
+        worker = new Worker(new URL('./bot.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<BotMove | null>) => {
+            const { game, request } = pending.shift()!;
+
+            // The answer is for a piece (or a board) that is gone by now.
+            if (game.hintRequest === request && !game.over) {
+                game.hint = getMoveHint(game, e.data);
+            }
+        };
+    }
+
+    pending.push({ game: game, request: game.hintRequest });
+    worker.postMessage(getBotRequest(game, null, true));
+};
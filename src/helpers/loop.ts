@@ -0,0 +1,114 @@
+/**
+ * The duration of a single tick in milliseconds, the game simulates 60 ticks per second.
+ */
+export const TICK_DURATION = 1000 / 60;
+
+/**
+ * The maximum amount of ticks that get simulated in one animation frame, when catching up.
+ * Anything above this gets dropped, so that a long freeze (or a background tab)
+ * does not make the game fast-forward through several seconds at once.
+ */
+export const MAX_CATCH_UP_TICKS = 6;
+
+/**
+ * A game loop running on requestAnimationFrame, with a fixed time step.
+ * The elapsed time gets collected and then simulated in fixed ticks of 1/60th of a second,
+ * no matter how often the browser actually draws a frame.
+ */
+export class GameLoop {
+    // The function that advances the simulation by a single tick.
+    tick: () => void;
+
+    running: boolean;
+    // The time of the last animation frame.
+    lastTime: number | null;
+    // The time that has passed but has not been simulated yet.
+    accumulator: number;
+    frameId: number | null;
+
+    // The amount of animation frames that needed more than one tick to catch up.
+    lateFrames: number;
+    // The amount of ticks that were skipped because they were above the catch-up limit.
+    droppedTicks: number;
+
+    constructor(tick: () => void) {
+        this.tick = tick;
+
+        this.running = false;
+        this.lastTime = null;
+        this.accumulator = 0;
+        this.frameId = null;
+
+        this.lateFrames = 0;
+        this.droppedTicks = 0;
+    }
+
+    /**
+     * Starts requesting animation frames.
+     */
+    start(): void {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        this.lastTime = null;
+        this.accumulator = 0;
+        this.frameId = requestAnimationFrame(this.onAnimationFrame);
+    }
+
+    /**
+     * Stops the loop, the current tick still finishes.
+     */
+    stop(): void {
+        this.running = false;
+
+        if (this.frameId !== null) {
+            cancelAnimationFrame(this.frameId);
+            this.frameId = null;
+        }
+    }
+
+    onAnimationFrame = (time: number): void => {
+        if (!this.running) {
+            return;
+        }
+
+        this.update(time);
+
+        if (this.running) {
+            this.frameId = requestAnimationFrame(this.onAnimationFrame);
+        }
+    };
+
+    /**
+     * Simulates all the ticks that fit into the time since the last animation frame.
+     */
+    update(time: number): void {
+        // The first frame only sets the starting point.
+        if (this.lastTime === null) {
+            this.lastTime = time;
+            return;
+        }
+
+        this.accumulator += time - this.lastTime;
+        this.lastTime = time;
+
+        // The small tolerance keeps rounding errors from delaying a tick by a whole frame.
+        let ticks = Math.floor(this.accumulator / TICK_DURATION + 1e-6);
+        this.accumulator -= ticks * TICK_DURATION;
+
+        if (ticks > 1) {
+            this.lateFrames++;
+        }
+
+        if (ticks > MAX_CATCH_UP_TICKS) {
+            this.droppedTicks += ticks - MAX_CATCH_UP_TICKS;
+            ticks = MAX_CATCH_UP_TICKS;
+        }
+
+        for (let i = 0; i < ticks && this.running; i++) {
+            this.tick();
+        }
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * The level that ends a Master game.
+ */
+export const MASTER_MAX_LEVEL = 999;
+
+/**
+ * The levels of a section, the speed and the timings change with every section.
+ */
+export const MASTER_SECTION_LENGTH = 100;
+
+/**
+ * The grades, from the lowest to the highest.
+ */
+export const GRADES = [
+    '9',
+    '8',
+    '7',
+    '6',
+    '5',
+    '4',
+    '3',
+    '2',
+    '1',
+    'S1',
+    'S2',
+    'S3',
+    'S4',
+    'S5',
+    'S6',
+    'S7',
+    'S8',
+    'S9',
+    'GM'
+];
+
+/**
+ * The timings of a section, all in ticks.
+ */
+export interface MasterTimings {
+    // The spawn delay (ARE) between a piece locking and the next one appearing.
+    are: number;
+    lockTicks: number;
+    lineClearTicks: number;
+}
+
+/**
+ * The timings of every section, loosely based on the Master mode of Tetris The Grand Master 2.
+ *
+ * See more information here: https://tetris.wiki/Tetris_The_Absolute_The_Grand_Master_2#Master
+ */
+export const MASTER_TIMINGS: MasterTimings[] = [
+    { are: 25, lockTicks: 30, lineClearTicks: 40 },
+    { are: 25, lockTicks: 30, lineClearTicks: 40 },
+    { are: 25, lockTicks: 30, lineClearTicks: 40 },
+    { are: 25, lockTicks: 30, lineClearTicks: 40 },
+    { are: 25, lockTicks: 30, lineClearTicks: 40 },
+    { are: 25, lockTicks: 30, lineClearTicks: 25 },
+    { are: 16, lockTicks: 27, lineClearTicks: 16 },
+    { are: 12, lockTicks: 24, lineClearTicks: 12 },
+    { are: 6, lockTicks: 20, lineClearTicks: 6 },
+    { are: 6, lockTicks: 17, lineClearTicks: 6 }
+];
+
+/**
+ * The time targets for every section in milliseconds.
+ * Every section completed in time gets you an extra grade, and all of them together the GM grade.
+ */
+export const MASTER_SECTION_TARGETS = [
+    65000, 65000, 65000, 65000, 65000, 60000, 60000, 60000, 55000, 55000
+];
+
+/**
+ * Gets the timings of the section a level is in.
+ */
+export const getMasterTimings = (level: number): MasterTimings => {
+    const section = Math.min(
+        Math.floor(level / MASTER_SECTION_LENGTH),
+        MASTER_TIMINGS.length - 1
+    );
+
+    return MASTER_TIMINGS[section];
+};
+
+/**
+ * Gets the level that ends the section a level is in.
+ */
+export const getSectionEnd = (level: number): number => {
+    return Math.min(
+        (Math.floor(level / MASTER_SECTION_LENGTH) + 1) * MASTER_SECTION_LENGTH,
+        MASTER_MAX_LEVEL
+    );
+};
+
+/**
+ * Gets the level after a piece locked and cleared some lines, and the next piece appeared.
+ * Every line counts, but the new piece only does if it does not finish a section (x99) or the game (998).
+ * So only line clears can get you into the next section.
+ */
+export const getNextMasterLevel = (level: number, lines: number): number => {
+    const next = Math.min(level + lines, MASTER_MAX_LEVEL);
+
+    if (
+        next % MASTER_SECTION_LENGTH === MASTER_SECTION_LENGTH - 1 ||
+        next >= MASTER_MAX_LEVEL - 1
+    ) {
+        return next;
+    }
+
+    return next + 1;
+};
+
+/**
+ * Keeps track of the section times of a Master game, which decide the grade.
+ */
+export class MasterGrading {
+    // The time every completed section took, in milliseconds.
+    sectionTimes: number[];
+
+    constructor() {
+        this.sectionTimes = [];
+    }
+
+    /**
+     * Records the sections that were completed by going from one level to the next.
+     * Returns if a section was completed.
+     */
+    update(level: number, time: number): boolean {
+        const completed =
+            level >= MASTER_MAX_LEVEL
+                ? MASTER_TIMINGS.length
+                : Math.floor(level / MASTER_SECTION_LENGTH);
+
+        if (completed <= this.sectionTimes.length) {
+            return false;
+        }
+
+        while (this.sectionTimes.length < completed) {
+            const start = this.sectionTimes.reduce((a, b) => a + b, 0);
+            this.sectionTimes.push(time - start);
+        }
+
+        return true;
+    }
+
+    /**
+     * Gets the index of the current grade in GRADES.
+     * Every completed section gets you a grade, and one more if it was completed in time.
+     * The GM grade needs every section completed in time.
+     */
+    getGrade(): number {
+        let inTime = 0;
+        for (let i = 0; i < this.sectionTimes.length; i++) {
+            if (this.sectionTimes[i] <= MASTER_SECTION_TARGETS[i]) {
+                inTime++;
+            }
+        }
+
+        if (inTime === MASTER_SECTION_TARGETS.length) {
+            return GRADES.length - 1;
+        }
+
+        return Math.min(this.sectionTimes.length + inTime, GRADES.length - 2);
+    }
+}
@@ -1,3 +1,5 @@
+import { CONFIG } from './config';
+import { MASTER_MAX_LEVEL } from './master';
 import { Menu } from './types';
 
 export const getMaxLines = (gameMode: Menu): number | null => {
@@ -19,3 +21,63 @@ export const getMaxTime = (gameMode: Menu): number | null => {
             return null;
     }
 };
+
+/**
+ * The level that finishes a game in that mode.
+ */
+export const getMaxLevel = (gameMode: Menu): number | null => {
+    switch (gameMode) {
+        case Menu.Master:
+            return MASTER_MAX_LEVEL;
+        default:
+            return null;
+    }
+};
+
+/**
+ * The garbage lines to clear to finish a game in that mode.
+ */
+export const getGarbageGoal = (gameMode: Menu): number | null => {
+    switch (gameMode) {
+        case Menu.Cheese:
+            return CONFIG.CHEESE_LINES.value;
+        case Menu.Dig:
+            return 40;
+        default:
+            return null;
+    }
+};
+
+/**
+ * If a game in that mode saves its high score.
+ * Helpers like the hint overlay are turned off in those modes, so that they cannot be used for records.
+ */
+export const recordsHighScore = (gameMode: Menu): boolean => {
+    return (
+        gameMode === Menu.Endless ||
+        gameMode === Menu.Marathon ||
+        gameMode === Menu.Sprint ||
+        gameMode === Menu.Time ||
+        gameMode === Menu.Master ||
+        gameMode === Menu.Cheese ||
+        gameMode === Menu.Survival ||
+        gameMode === Menu.Dig ||
+        gameMode === Menu.Custom
+    );
+};
+
+/**
+ * If topping out is the normal end of a game in that mode, instead of a failure.
+ * Survival is about lasting as long as possible, so every run ends that way.
+ */
+export const endsWithTopOut = (gameMode: Menu): boolean => {
+    return gameMode === Menu.Survival;
+};
+
+/**
+ * If a game in that mode can be suspended and continued later on.
+ * Sprint and Ultra are races against the clock, so they cannot.
+ */
+export const canBeSuspended = (gameMode: Menu): boolean => {
+    return gameMode === Menu.Endless || gameMode === Menu.Marathon;
+};
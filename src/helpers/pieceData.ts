@@ -1,271 +1,118 @@
 import { Piece } from './pieces';
+import { getPieceColor, getRotations, PIECE_SETS, type PieceSetDefinition } from './pieceSets';
+import { ROTATION_SYSTEMS, RotationSystemType } from './rotation';
 
-// These rotations are from the "Super Rotation System (SRS)"
-// https://strategywiki.org/wiki/Tetris/Rotation_systems
-
-const iRotations = [
-    [
-        [0, 0, 0, 0],
-        [1, 1, 1, 1],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 1, 0],
-        [0, 0, 1, 0],
-        [0, 0, 1, 0],
-        [0, 0, 1, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [0, 0, 0, 0],
-        [1, 1, 1, 1],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 1, 0, 0]
-    ]
-];
+/**
+ * Returns one of each piece of a set for a rotation system.
+ * The usual set is in order: I, J, L, O, S, Z, T.
+ */
+export const getPieceSet = (
+    rotationSystem: RotationSystemType,
+    set: PieceSetDefinition = PIECE_SETS[0]
+): Piece[] => {
+    const system = ROTATION_SYSTEMS[rotationSystem];
 
-const jRotations = [
-    [
-        [1, 0, 0, 0],
-        [1, 1, 1, 0],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 1, 0],
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [1, 1, 1, 0],
-        [0, 0, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [1, 1, 0, 0],
-        [0, 0, 0, 0]
-    ]
-];
+    return set.pieces.map((definition, i) => {
+        // A definition without rotations only makes sense for the usual pieces, anything else becomes a single block.
+        const rotations =
+            definition.rotations ?? system.rotations[definition.name] ?? getRotations([[1]]);
 
-const lRotations = [
-    [
-        [0, 0, 1, 0],
-        [1, 1, 1, 0],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [1, 1, 1, 0],
-        [1, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [1, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ]
-];
+        const piece = new Piece(
+            definition.name,
+            getPieceColor(set, i),
+            rotations,
+            0,
+            [0, 3],
+            rotationSystem,
+            definition.kicks ?? null,
+            definition.overhang ?? false
+        );
+        piece.reset();
+        return piece;
+    });
+};
 
-const oRotations = [
-    [
-        [0, 0, 0, 0],
-        [0, 1, 1, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [0, 1, 1, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [0, 1, 1, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [0, 1, 1, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ]
-];
+/**
+ * Returns one of each piece with the default rotation system (SRS), in order: I, J, L, O, S, Z, T.
+ */
+export const allPieces: Piece[] = getPieceSet(RotationSystemType.SRS);
 
-const sRotations = [
-    [
-        [0, 1, 1, 0],
-        [1, 1, 0, 0],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [0, 1, 1, 0],
-        [0, 0, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [0, 1, 1, 0],
-        [1, 1, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [1, 0, 0, 0],
-        [1, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ]
-];
+/**
+ * Gets the spawn state of a piece in its color, without the empty rows and columns around it.
+ */
+const getPieceShape = (piece: Piece): number[][] => {
+    const state = piece.rotations[0];
 
-const zRotations = [
-    [
-        [1, 1, 0, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 1, 0],
-        [0, 1, 1, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [1, 1, 0, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [1, 1, 0, 0],
-        [1, 0, 0, 0],
-        [0, 0, 0, 0]
-    ]
-];
+    const rows = state.filter((row) => row.includes(1));
+    const columns = state[0].map((_, j) => j).filter((j) => state.some((row) => row[j] === 1));
 
-const tRotations = [
-    [
-        [0, 1, 0, 0],
-        [1, 1, 1, 0],
-        [0, 0, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [0, 1, 1, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 0, 0, 0],
-        [1, 1, 1, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ],
-    [
-        [0, 1, 0, 0],
-        [1, 1, 0, 0],
-        [0, 1, 0, 0],
-        [0, 0, 0, 0]
-    ]
-];
+    return rows.map((row) =>
+        row.slice(columns[0], columns[columns.length - 1] + 1).map((b) => b * piece.color)
+    );
+};
 
 /**
- * Returns one of each piece, in order: I, J, L, O, S, Z, T.
+ * The height and width every piece of a set gets in the previews, at least 2 by 4.
  */
-export const allPieces: Piece[] = [
-    new Piece('I', 1, iRotations),
-    new Piece('J', 2, jRotations),
-    new Piece('L', 3, lRotations),
-    new Piece('O', 4, oRotations),
-    new Piece('S', 5, sRotations),
-    new Piece('Z', 6, zRotations),
-    new Piece('T', 7, tRotations)
-];
+export const getPreviewSize = (pieceSet: Piece[]): number[] => {
+    const shapes = pieceSet.map(getPieceShape);
+
+    return [
+        Math.max(2, ...shapes.map((shape) => shape.length)),
+        Math.max(4, ...shapes.map((shape) => shape[0].length))
+    ];
+};
 
 /**
  * This is for rendering the preview of upcoming/held pieces.
+ * The pieces sit at the bottom of the preview, and in the middle (rounded to the left).
  */
-export const getDefaultPiece = (pieceType: string | null): number[][] => {
-    switch (pieceType) {
-        case 'I':
-            return [
-                [0, 0, 0, 0],
-                [1, 1, 1, 1]
-            ];
-        case 'J':
-            return [
-                [2, 0, 0, 0],
-                [2, 2, 2, 0]
-            ];
-        case 'L':
-            return [
-                [0, 0, 3, 0],
-                [3, 3, 3, 0]
-            ];
-        case 'O':
-            return [
-                [0, 4, 4, 0],
-                [0, 4, 4, 0]
-            ];
-        case 'S':
-            return [
-                [0, 5, 5, 0],
-                [5, 5, 0, 0]
-            ];
-        case 'Z':
-            return [
-                [6, 6, 0, 0],
-                [0, 6, 6, 0]
-            ];
-        case 'T':
-            return [
-                [0, 7, 0, 0],
-                [7, 7, 7, 0]
-            ];
-        default:
-            return [
-                [0, 0, 0, 0],
-                [0, 0, 0, 0]
-            ];
+export const getDefaultPiece = (
+    pieceType: string | null,
+    pieceSet: Piece[] = allPieces
+): number[][] => {
+    const [height, width] = getPreviewSize(pieceSet);
+    const preview: number[][] = [];
+    for (let i = 0; i < height; i++) {
+        preview.push(new Array(width).fill(0));
+    }
+
+    const piece = pieceSet.find((p) => p.name === pieceType);
+    if (!piece) {
+        return preview;
     }
+
+    const shape = getPieceShape(piece);
+    const top = height - shape.length;
+    const left = Math.floor((width - shape[0].length) / 2);
+
+    for (let i = 0; i < shape.length; i++) {
+        for (let j = 0; j < shape[i].length; j++) {
+            preview[top + i][left + j] = shape[i][j];
+        }
+    }
+
+    return preview;
 };
 
 /**
- * Gets a neatly formatted 4x4 table with a single piece.
+ * Gets a neatly formatted table with the pieces below each other.
  * Used in the preview for upcoming pieces, held pieces and piece counts.
+ * All previews get the same size, which depends on the largest piece of the set.
  */
-export const getPreviewPieceTable = (nextPieces: Piece[]): number[][] => {
+export const getPreviewPieceTable = (
+    nextPieces: (Piece | null)[],
+    pieceSet: Piece[] = allPieces
+): number[][] => {
+    const width = getPreviewSize(pieceSet)[1];
     const table: number[][] = [];
 
     for (let i = 0; i < nextPieces.length; i++) {
-        table.push([0, 0, 0, 0]);
-        table.push(...getDefaultPiece(nextPieces[i].name));
+        table.push(new Array(width).fill(0));
+        table.push(...getDefaultPiece(nextPieces[i]?.name ?? null, pieceSet));
     }
 
-    table.push([0, 0, 0, 0]);
+    table.push(new Array(width).fill(0));
 
     return table;
 };
@@ -0,0 +1,477 @@
+/**
+ * The different sets of pieces a game can be played with.
+ */
+export enum PieceSetType {
+    Tetrominoes,
+    Pentominoes,
+    Trominoes,
+    Custom
+}
+
+/**
+ * The first color index for pieces outside of the usual seven.
+ * 8 and 9 are taken by the greyed out and white blocks and 10 by garbage, so we leave some room.
+ */
+export const CUSTOM_COLOR_START = 16;
+
+/**
+ * Wall kicks for a single piece, indexed by the rotation the piece starts in.
+ * The kicks are in the same -X/Y format as the ones of the rotation systems, and [0, 0] is always tried first.
+ */
+export interface PieceKicks {
+    clockwise: number[][][];
+    counterClockwise: number[][][];
+    // Without these, 180° rotations do not kick.
+    rotate180?: number[][][];
+}
+
+/**
+ * A single piece of a set, as plain data.
+ */
+export interface PieceDefinition {
+    name: string;
+    // Either one of the colors of the usual pieces (1-7), or any CSS color.
+    color: number | string;
+    // The four rotation states, clockwise starting with the spawn state. A single state gets rotated automatically.
+    // Without them, the piece takes the rotations of the rotation system (only works for the usual seven pieces).
+    rotations?: number[][][];
+    // Without these, the piece uses the wall kicks of the rotation system.
+    kicks?: PieceKicks;
+    // If the piece leaves an overhang on an empty board, so that it never comes first.
+    overhang?: boolean;
+}
+
+/**
+ * A set of pieces, as plain data, so that it can be saved or sent to a web worker.
+ */
+export interface PieceSetDefinition {
+    name: string;
+    pieces: PieceDefinition[];
+}
+
+/**
+ * Rotates a square piece state clockwise by 90°.
+ */
+const rotateClockwise = (state: number[][]): number[][] => {
+    return state.map((row, i) => row.map((_, j) => state[state.length - 1 - j][i]));
+};
+
+/**
+ * Gets all four rotation states from the spawn state, by turning it around the center of its box.
+ */
+export const getRotations = (state: number[][]): number[][][] => {
+    const rotations = [state];
+
+    for (let i = 1; i < 4; i++) {
+        rotations.push(rotateClockwise(rotations[i - 1]));
+    }
+
+    return rotations;
+};
+
+/**
+ * The seven usual pieces, their rotations depend on the rotation system.
+ */
+const tetrominoes: PieceSetDefinition = {
+    name: 'TETROMINOES',
+    pieces: [
+        { name: 'I', color: 1 },
+        { name: 'J', color: 2 },
+        { name: 'L', color: 3 },
+        { name: 'O', color: 4, overhang: true },
+        { name: 'S', color: 5, overhang: true },
+        { name: 'Z', color: 6, overhang: true },
+        { name: 'T', color: 7 }
+    ]
+};
+
+// The 18 one-sided pentominoes, the mirrored versions are marked with an apostrophe.
+// Names that would clash with the usual pieces get a 5 added.
+// https://en.wikipedia.org/wiki/Pentomino
+
+const pentominoes: PieceSetDefinition = {
+    name: 'PENTOMINOES',
+    pieces: [
+        {
+            name: 'F',
+            color: '#e0a030',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 1, 1, 0, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "F'",
+            color: '#b07020',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 1, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'I5',
+            color: '#40e0e0',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0],
+                [1, 1, 1, 1, 1],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'L5',
+            color: '#ff9f40',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 1, 0],
+                [1, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "L5'",
+            color: '#4060ff',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 0, 0, 0],
+                [0, 1, 1, 1, 1],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'N',
+            color: '#ff6080',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [1, 1, 0, 0, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "N'",
+            color: '#60ff80',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 1, 1],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'P',
+            color: '#ff60ff',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 1, 0, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "P'",
+            color: '#a060ff',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'T5',
+            color: '#d040d0',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'U',
+            color: '#f0f060',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 0, 1, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'V',
+            color: '#60a0ff',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 0, 0, 0],
+                [0, 1, 0, 0, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'W',
+            color: '#80ffc0',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 0, 0, 0],
+                [0, 1, 1, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'X',
+            color: '#ffffff',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 0, 0],
+                [0, 1, 1, 1, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'Y',
+            color: '#c0c040',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 0, 0],
+                [1, 1, 1, 1, 0],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "Y'",
+            color: '#40c0c0',
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 0, 0],
+                [0, 1, 1, 1, 1],
+                [0, 0, 0, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: 'Z5',
+            color: '#ff4040',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 1, 1, 0, 0],
+                [0, 0, 1, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        },
+        {
+            name: "Z5'",
+            color: '#40ff40',
+            overhang: true,
+            rotations: getRotations([
+                [0, 0, 0, 0, 0],
+                [0, 0, 1, 1, 0],
+                [0, 0, 1, 0, 0],
+                [0, 1, 1, 0, 0],
+                [0, 0, 0, 0, 0]
+            ])
+        }
+    ]
+};
+
+const trominoes: PieceSetDefinition = {
+    name: 'TROMINOES',
+    pieces: [
+        {
+            name: 'I3',
+            color: 1,
+            rotations: getRotations([
+                [0, 0, 0],
+                [1, 1, 1],
+                [0, 0, 0]
+            ])
+        },
+        {
+            name: 'L3',
+            color: 3,
+            rotations: getRotations([
+                [0, 1, 0],
+                [0, 1, 1],
+                [0, 0, 0]
+            ])
+        }
+    ]
+};
+
+/**
+ * The built in piece sets, in the order of the PieceSetType enum.
+ */
+export const PIECE_SETS: PieceSetDefinition[] = [tetrominoes, pentominoes, trominoes];
+
+/**
+ * If something is a list of rotation states, with every state being a square of 0s and 1s.
+ */
+const isRotationList = (rotations: unknown): rotations is number[][][] => {
+    return (
+        Array.isArray(rotations) &&
+        rotations.every(
+            (state) =>
+                Array.isArray(state) &&
+                state.length > 0 &&
+                state.every(
+                    (row) =>
+                        Array.isArray(row) &&
+                        row.length === state.length &&
+                        row.every((block) => block === 0 || block === 1)
+                )
+        )
+    );
+};
+
+/**
+ * If something is a kick table, with a list of [x, y] kicks for all four starting rotations.
+ */
+const isKickTable = (kicks: unknown): kicks is number[][][] => {
+    return (
+        Array.isArray(kicks) &&
+        kicks.length === 4 &&
+        kicks.every(
+            (list) =>
+                Array.isArray(list) &&
+                list.every(
+                    (kick) =>
+                        Array.isArray(kick) &&
+                        kick.length === 2 &&
+                        kick.every((n) => Number.isInteger(n))
+                )
+        )
+    );
+};
+
+/**
+ * Reads a user defined piece set from JSON. Throws an error if the set cannot be played with.
+ *
+ * The format is the same as PieceSetDefinition, for example:
+ * { "name": "DOMINO", "pieces": [{ "name": "D", "color": "#ff00ff", "rotations": [[[1, 1], [0, 0]]] }] }
+ */
+export const parsePieceSet = (text: string): PieceSetDefinition => {
+    let set: PieceSetDefinition;
+
+    try {
+        set = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A PIECE SET FILE');
+    }
+
+    if (typeof set !== 'object' || set === null || !Array.isArray(set.pieces)) {
+        throw new Error('NOT A PIECE SET FILE');
+    }
+
+    if (set.pieces.length === 0) {
+        throw new Error('THE PIECE SET HAS NO PIECES');
+    }
+
+    const pieces: PieceDefinition[] = [];
+
+    for (let i = 0; i < set.pieces.length; i++) {
+        const piece = set.pieces[i];
+
+        if (typeof piece !== 'object' || piece === null || typeof piece.name !== 'string') {
+            throw new Error(`PIECE ${i + 1} HAS NO NAME`);
+        }
+
+        if (pieces.some((p) => p.name === piece.name)) {
+            throw new Error(`PIECE ${piece.name} EXISTS TWICE`);
+        }
+
+        if (
+            typeof piece.color !== 'string' &&
+            !(Number.isInteger(piece.color) && piece.color >= 1 && piece.color <= 7)
+        ) {
+            throw new Error(`PIECE ${piece.name} HAS AN INVALID COLOR`);
+        }
+
+        if (
+            !isRotationList(piece.rotations) ||
+            (piece.rotations.length !== 1 && piece.rotations.length !== 4) ||
+            piece.rotations.some((state) => !state.some((row) => row.includes(1)))
+        ) {
+            throw new Error(`PIECE ${piece.name} HAS INVALID ROTATIONS`);
+        }
+
+        if (
+            piece.kicks !== undefined &&
+            (!isKickTable(piece.kicks.clockwise) ||
+                !isKickTable(piece.kicks.counterClockwise) ||
+                (piece.kicks.rotate180 !== undefined && !isKickTable(piece.kicks.rotate180)))
+        ) {
+            throw new Error(`PIECE ${piece.name} HAS INVALID KICKS`);
+        }
+
+        pieces.push({
+            name: piece.name,
+            color: piece.color,
+            rotations:
+                piece.rotations.length === 1 ? getRotations(piece.rotations[0]) : piece.rotations,
+            kicks: piece.kicks,
+            overhang: piece.overhang === true
+        });
+    }
+
+    return {
+        name: typeof set.name === 'string' ? set.name : 'CUSTOM',
+        pieces: pieces
+    };
+};
+
+/**
+ * Gets the definition of a piece set.
+ * If the custom set cannot be read (anymore), the usual pieces are used instead.
+ */
+export const getPieceSetDefinition = (
+    type: PieceSetType,
+    customPieceSet: string = ''
+): PieceSetDefinition => {
+    if (type !== PieceSetType.Custom) {
+        return PIECE_SETS[type] ?? tetrominoes;
+    }
+
+    try {
+        return parsePieceSet(customPieceSet);
+    } catch {
+        return tetrominoes;
+    }
+};
+
+/**
+ * Gets the color index of every piece of a set on the board.
+ * CSS colors get their own index from CUSTOM_COLOR_START upwards, depending on the position of the piece.
+ */
+export const getPieceColor = (set: PieceSetDefinition, index: number): number => {
+    const color = set.pieces[index].color;
+
+    return typeof color === 'number' ? color : CUSTOM_COLOR_START + index;
+};
@@ -1,5 +1,7 @@
 import type { Board } from './board';
 import { CONFIG } from './config';
+import type { PieceKicks } from './pieceSets';
+import { ROTATION_SYSTEMS, RotationSystemType } from './rotation';
 import { Direction } from './types';
 
 export class Piece {
@@ -8,26 +10,55 @@ export class Piece {
     currentRotation: number;
     rotations: number[][][];
     offset: number[];
+    // The rotation system decides the wall kicks, 180° rotations and where the piece spawns.
+    rotationSystem: RotationSystemType;
+    // Pieces outside of the usual seven can bring their own wall kicks.
+    kicks: PieceKicks | null;
+    // If the piece leaves an overhang on an empty board, so that it never comes first.
+    overhang: boolean;
 
     constructor(
         name: string,
         color: number,
         rotations: number[][][],
         currentRotation: number = 0,
-        offset: number[] = [0, 3]
+        offset: number[] = [0, 3],
+        rotationSystem: RotationSystemType = RotationSystemType.SRS,
+        kicks: PieceKicks | null = null,
+        overhang: boolean = false
     ) {
         this.name = name;
         this.color = color;
         this.rotations = rotations;
         this.currentRotation = currentRotation;
         this.offset = offset;
+        this.rotationSystem = rotationSystem;
+        this.kicks = kicks;
+        this.overhang = overhang;
     }
 
+    /**
+     * Creates a copy of the piece, which can move independently from the original.
+     * Every piece in a game needs to be its own instance, otherwise two games would move each others pieces.
+     */
+    clone = (): Piece => {
+        return new Piece(
+            this.name,
+            this.color,
+            this.rotations,
+            this.currentRotation,
+            this.offset.slice(),
+            this.rotationSystem,
+            this.kicks,
+            this.overhang
+        );
+    };
+
     /**
      * Resets a piece back to its original position and rotation.
      */
-    reset = (): void => {
-        this.offset = [0, 3];
+    reset = (boardWidth: number = 10): void => {
+        this.offset = ROTATION_SYSTEMS[this.rotationSystem].getSpawnOffset(this.name, boardWidth);
         this.currentRotation = 0;
     };
 
@@ -36,7 +67,7 @@ export class Piece {
      */
     spawn = (board: Board): boolean => {
         // First we reset the position of the piece.
-        this.reset();
+        this.reset(board.width);
 
         const gb: number[][] = board.GameBoard;
 
@@ -116,6 +147,11 @@ export class Piece {
             return false;
         }
 
+        // Not every rotation system has 180° rotations.
+        if (rotate180 && !ROTATION_SYSTEMS[this.rotationSystem].rotate180) {
+            return false;
+        }
+
         let nextRotation = (this.currentRotation + (clockwise ? 1 : -1)) % 4;
         if (nextRotation === -1) {
             nextRotation += 4;
@@ -156,10 +192,9 @@ export class Piece {
     };
 
     /**
-     * This function moves a piece down by 1 and returns if the move succeeded.
+     * Returns if the piece rests on the floor or on other blocks, so that it cannot move down.
      */
-    moveDown = (board: Board): boolean => {
-        const pieceBlocks = this.getCoordinates();
+    isGrounded = (board: Board): boolean => {
         // These are the blocks that face down from the given piece, we check for collision on those.
         const blocksToBeCollidedWith = this.getCollisionBlocks(Direction.Down);
 
@@ -169,10 +204,23 @@ export class Piece {
                 coords[0] >= board.GameBoard.length ||
                 board.GameBoard[coords[0]][coords[1]] !== 0
             ) {
-                return false;
+                return true;
             }
         }
 
+        return false;
+    };
+
+    /**
+     * This function moves a piece down by 1 and returns if the move succeeded.
+     */
+    moveDown = (board: Board): boolean => {
+        if (this.isGrounded(board)) {
+            return false;
+        }
+
+        const pieceBlocks = this.getCoordinates();
+
         // We first set all "old" blocks to zero, before setting the new blocks to 1.
         for (let i = 0; i < pieceBlocks.length; i++) {
             const coords = pieceBlocks[i];
@@ -276,80 +324,29 @@ export class Piece {
     };
 
     /**
-     * Gets you the wall kick offsets for each piece.
+     * Gets you the wall kick offsets of the piece, or of its rotation system.
      * The first one is always [0, 0].
-     * This is taken from: https://tetris.fandom.com/wiki/SRS#Wall_Kicks
      */
     getWallKicks = (clockwise: boolean, rotate180: boolean): number[][] => {
-        const wallKicks: number[][] = [];
-
-        wallKicks.push([0, 0]);
-
-        // The O piece does not kick.
-        if (this.name === 'O') {
-            return wallKicks;
+        if (rotate180 && !CONFIG.KICKS_180.value) {
+            return [[0, 0]];
         }
 
-        if (rotate180) {
-            // These are taken from: https://twitter.com/tetriogame/status/1271572187309375491
-            // SRS does not have an official Wallkick table for 180° rotations.
-            // I guess the I piece would need a special rotation table, but the I piece 180° rotations seem kinda useless anyways?
-            if (this.currentRotation === 0) {
-                wallKicks.push([0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]); // 0 >> 2
-            } else if (this.currentRotation === 1) {
-                wallKicks.push([1, 0], [1, 2], [1, 1], [0, 2], [0, 1]); // 1 >> 3
-            } else if (this.currentRotation === 2) {
-                wallKicks.push([0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]); // 2 >> 0
-            } else if (this.currentRotation === 3) {
-                wallKicks.push([-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]); // 3 >> 1
-            }
-
-            return wallKicks;
-        }
-
-        // The I piece has special kick values due to its shape.
-        if (this.name === 'I') {
-            if (this.currentRotation === 0) {
-                clockwise
-                    ? wallKicks.push([-2, 0], [1, 0], [-2, -1], [1, 2]) // 0 >> 1
-                    : wallKicks.push([-1, 0], [2, 0], [-1, 2], [2, -1]); // 0 >> 3
-            } else if (this.currentRotation === 1) {
-                clockwise
-                    ? wallKicks.push([-1, 0], [2, 0], [-1, 2], [2, -1]) // 1 >> 2
-                    : wallKicks.push([2, 0], [-1, 0], [2, 1], [-1, 2]); // 1 >> 0
-            } else if (this.currentRotation === 2) {
-                clockwise
-                    ? wallKicks.push([2, 0], [-1, 0], [2, 1], [-1, -2]) // 2 >> 3
-                    : wallKicks.push([1, 0], [-2, 0], [1, -2], [-2, 1]); // 2 >> 1
-            } else if (this.currentRotation == 3) {
-                clockwise
-                    ? wallKicks.push([1, 0], [-2, 0], [1, -2], [-2, 1]) // 3 >> 0
-                    : wallKicks.push([-2, 0], [1, 0], [-2, -1], [1, 2]); // 3 >> 2
+        if (this.kicks) {
+            let table = clockwise ? this.kicks.clockwise : this.kicks.counterClockwise;
+            if (rotate180) {
+                table = this.kicks.rotate180 ?? [[], [], [], []];
             }
 
-            return wallKicks;
-        }
-
-        // And the J, L, T, S, and Z pieces all share kick values.
-        if (this.currentRotation === 0) {
-            clockwise
-                ? wallKicks.push([-1, 0], [-1, 1], [0, -2], [-1, -2]) // 0 >> 1
-                : wallKicks.push([1, 0], [1, 1], [0, -2], [1, -2]); // 0 >> 3
-        } else if (this.currentRotation === 1) {
-            clockwise
-                ? wallKicks.push([1, 0], [1, -1], [0, 2], [1, 2]) // 1 >> 2
-                : wallKicks.push([1, 0], [1, -1], [0, 2], [1, 2]); // 1 >> 0
-        } else if (this.currentRotation === 2) {
-            clockwise
-                ? wallKicks.push([1, 0], [1, 1], [0, -2], [1, -2]) // 2 >> 3
-                : wallKicks.push([-1, 0], [-1, 1], [0, -2], [-1, -2]); // 2 >> 1
-        } else if (this.currentRotation == 3) {
-            clockwise
-                ? wallKicks.push([-1, 0], [-1, -1], [0, 2], [-1, 2]) // 3 >> 0
-                : wallKicks.push([-1, 0], [-1, -1], [0, 2], [-1, 2]); // 3 >> 2
+            return [[0, 0], ...table[this.currentRotation]];
         }
 
-        return wallKicks;
+        return ROTATION_SYSTEMS[this.rotationSystem].getWallKicks(
+            this.name,
+            this.currentRotation,
+            clockwise,
+            rotate180
+        );
     };
 
     /**
@@ -376,7 +373,8 @@ export class Piece {
                 this.color,
                 this.rotations,
                 nextRotation,
-                this.offset
+                this.offset,
+                this.rotationSystem
             );
 
             // We apply the wallkick to the piece offsets.
@@ -438,7 +436,8 @@ export class Piece {
             copyPiece.color,
             copyPiece.rotations,
             copyPiece.currentRotation,
-            copyPiece.offset
+            copyPiece.offset,
+            copyPiece.rotationSystem
         );
         const shadowBoard: Board = JSON.parse(JSON.stringify(board));
 
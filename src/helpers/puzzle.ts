@@ -0,0 +1,277 @@
+import { isCustomBoardRow } from './customMode';
+import { TSpin, type GameEvents } from './types';
+
+/**
+ * What has to be done to solve a puzzle, with the pieces of the puzzle.
+ * A T-Spin has to be a full one, clearing that many lines at once.
+ */
+export type PuzzleObjective =
+    | { type: 'perfectClear' }
+    | { type: 'tSpin'; lines: number }
+    | { type: 'lines'; lines: number };
+
+/**
+ * A puzzle, with a fixed starting board and piece sequence.
+ * Running out of pieces before the objective is reached fails the puzzle.
+ */
+export interface Puzzle {
+    name: string;
+    // The rows at the bottom of the board, like the starting board of a custom mode.
+    board: string[];
+    // The pieces in the order they come, by name, for example "TIO".
+    pieces: string;
+    objective: PuzzleObjective;
+    // Some puzzles do not let you hold, the ones that do let you play the held piece last.
+    hold: boolean;
+}
+
+export interface PuzzlePack {
+    name: string;
+    puzzles: Puzzle[];
+}
+
+// The pieces a puzzle can use, puzzles are made for the usual seven pieces.
+const PUZZLE_PIECES = /^[IJLOSZT]+$/;
+
+/**
+ * The puzzle packs that come with the game.
+ */
+export const PUZZLE_PACKS: PuzzlePack[] = [
+    {
+        name: 'BASICS',
+        puzzles: [
+            {
+                name: 'TETRIS',
+                board: ['GGGGGGGGG.', 'GGGGGGGGG.', 'GGGGGGGGG.', 'GGGGGGGGG.'],
+                pieces: 'I',
+                objective: { type: 'lines', lines: 4 },
+                hold: false
+            },
+            {
+                name: 'SQUARE HOLE',
+                board: ['GGGG..GGGG', 'GGGG..GGGG'],
+                pieces: 'O',
+                objective: { type: 'lines', lines: 2 },
+                hold: false
+            },
+            {
+                name: 'THREE WIDE',
+                board: ['GGGGGGG...', 'GGGGGGG...', 'GGGGGGG...', 'GGGGGGG...'],
+                pieces: 'ILJ',
+                objective: { type: 'lines', lines: 4 },
+                hold: true
+            }
+        ]
+    },
+    {
+        name: 'T-SPINS',
+        puzzles: [
+            {
+                name: 'T-SPIN SINGLE',
+                board: ['GG........', 'G...GGGGGG', 'GG.GGGG.GG'],
+                pieces: 'T',
+                objective: { type: 'tSpin', lines: 1 },
+                hold: false
+            },
+            {
+                name: 'T-SPIN DOUBLE',
+                board: ['GG........', 'G...GGGGGG', 'GG.GGGGGGG'],
+                pieces: 'T',
+                objective: { type: 'tSpin', lines: 2 },
+                hold: false
+            },
+            {
+                name: 'T-SPIN TRIPLE',
+                board: ['GGG.......', 'GG........', 'GG.GGGGGGG', 'GG..GGGGGG', 'GG.GGGGGGG'],
+                pieces: 'T',
+                objective: { type: 'tSpin', lines: 3 },
+                hold: false
+            }
+        ]
+    },
+    {
+        name: 'PERFECT CLEARS',
+        puzzles: [
+            {
+                name: 'TWO SQUARES',
+                board: ['GGGGGG....', 'GGGGGG....'],
+                pieces: 'OO',
+                objective: { type: 'perfectClear' },
+                hold: false
+            },
+            {
+                name: 'LONG BARS',
+                board: ['GGGG......', 'GGGG......'],
+                pieces: 'IIO',
+                objective: { type: 'perfectClear' },
+                hold: true
+            }
+        ]
+    }
+];
+
+/**
+ * If the line clear of a piece solves the puzzle.
+ * The line count is the lines cleared in the whole puzzle so far, including this clear.
+ */
+export const isPuzzleSolved = (
+    objective: PuzzleObjective,
+    clear: GameEvents['lineClear'],
+    lineCount: number
+): boolean => {
+    switch (objective.type) {
+        case 'perfectClear':
+            return clear.perfectClear;
+        case 'tSpin':
+            return clear.tSpin === TSpin.Full && clear.count === objective.lines;
+        case 'lines':
+            return lineCount >= objective.lines;
+    }
+};
+
+/**
+ * Describes the objective of a puzzle for the player.
+ */
+export const getObjectiveText = (puzzle: Puzzle): string => {
+    const pieces = `WITH ${puzzle.pieces.length} PIECE${puzzle.pieces.length === 1 ? '' : 'S'}`;
+
+    switch (puzzle.objective.type) {
+        case 'perfectClear':
+            return `PERFECT CLEAR ${pieces}`;
+        case 'tSpin':
+            return `T-SPIN ${['SINGLE', 'DOUBLE', 'TRIPLE'][puzzle.objective.lines - 1]}`;
+        case 'lines':
+            return `CLEAR ${puzzle.objective.lines} LINES ${pieces}`;
+    }
+};
+
+/**
+ * Reads a puzzle pack from JSON. Throws an error if it cannot be played.
+ *
+ * The format looks like this, with the board rows like in the mode builder:
+ * {"name": "PACK", "puzzles": [{"name": "TSD", "board": ["GG.GGGGGGG"], "pieces": "TI",
+ * "objective": {"type": "tSpin", "lines": 2}}]}
+ */
+export const parsePuzzlePack = (text: string): PuzzlePack => {
+    let pack: PuzzlePack;
+
+    try {
+        pack = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A PUZZLE PACK');
+    }
+
+    if (
+        typeof pack !== 'object' ||
+        pack === null ||
+        typeof pack.name !== 'string' ||
+        !Array.isArray(pack.puzzles)
+    ) {
+        throw new Error('NOT A PUZZLE PACK');
+    }
+
+    if (pack.puzzles.length === 0) {
+        throw new Error('THE PUZZLE PACK IS EMPTY');
+    }
+
+    const puzzles: Puzzle[] = [];
+
+    for (let i = 0; i < pack.puzzles.length; i++) {
+        const puzzle = pack.puzzles[i];
+
+        if (typeof puzzle !== 'object' || puzzle === null || typeof puzzle.name !== 'string') {
+            throw new Error(`PUZZLE ${i + 1} HAS NO NAME`);
+        }
+
+        if (!Array.isArray(puzzle.board) || !puzzle.board.every(isCustomBoardRow)) {
+            throw new Error(`PUZZLE ${puzzle.name} HAS AN INVALID BOARD`);
+        }
+
+        if (typeof puzzle.pieces !== 'string' || !PUZZLE_PIECES.test(puzzle.pieces)) {
+            throw new Error(`PUZZLE ${puzzle.name} HAS INVALID PIECES`);
+        }
+
+        const objective = puzzle.objective;
+        if (
+            typeof objective !== 'object' ||
+            objective === null ||
+            !(
+                objective.type === 'perfectClear' ||
+                (objective.type === 'tSpin' && [1, 2, 3].includes(objective.lines)) ||
+                (objective.type === 'lines' &&
+                    Number.isInteger(objective.lines) &&
+                    objective.lines > 0)
+            )
+        ) {
+            throw new Error(`PUZZLE ${puzzle.name} HAS AN INVALID OBJECTIVE`);
+        }
+
+        puzzles.push({
+            name: puzzle.name,
+            board: puzzle.board,
+            pieces: puzzle.pieces,
+            objective: objective,
+            hold: puzzle.hold !== false
+        });
+    }
+
+    return { name: pack.name, puzzles: puzzles };
+};
+
+/**
+ * Loads the puzzle packs the player imported, the ones that cannot be read anymore are left out.
+ */
+export const loadPuzzlePacks = (): PuzzlePack[] => {
+    let saved: string[];
+
+    try {
+        saved = JSON.parse(localStorage.getItem('puzzle-packs') || '[]');
+    } catch {
+        return [];
+    }
+
+    const packs: PuzzlePack[] = [];
+    for (let i = 0; i < saved.length; i++) {
+        try {
+            packs.push(parsePuzzlePack(saved[i]));
+        } catch {
+            // Skipping the broken pack.
+        }
+    }
+
+    return packs;
+};
+
+/**
+ * Saves an imported puzzle pack to local storage, replacing an earlier pack with the same name.
+ */
+export const savePuzzlePack = (pack: PuzzlePack): void => {
+    const packs = loadPuzzlePacks().filter((p) => p.name !== pack.name);
+    packs.push(pack);
+
+    localStorage.setItem('puzzle-packs', JSON.stringify(packs.map((p) => JSON.stringify(p))));
+};
+
+/**
+ * The puzzles that were solved, by pack and puzzle name.
+ */
+const getCompletedPuzzles = (): string[] => {
+    try {
+        return JSON.parse(localStorage.getItem('puzzles-completed') || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const isPuzzleCompleted = (pack: PuzzlePack, puzzle: Puzzle): boolean => {
+    return getCompletedPuzzles().includes(`${pack.name}/${puzzle.name}`);
+};
+
+export const completePuzzle = (pack: PuzzlePack, puzzle: Puzzle): void => {
+    const completed = getCompletedPuzzles();
+
+    if (!completed.includes(`${pack.name}/${puzzle.name}`)) {
+        completed.push(`${pack.name}/${puzzle.name}`);
+        localStorage.setItem('puzzles-completed', JSON.stringify(completed));
+    }
+};
@@ -0,0 +1,293 @@
+import { CONFIG } from './config';
+import { getCustomModeId, parseCustomMode, type CustomMode } from './customMode';
+import { parseBoardSetup, type BoardSetup } from './editor';
+import type { Game } from './game';
+import type { PieceSetDefinition } from './pieceSets';
+import { parsePuzzlePack, type Puzzle } from './puzzle';
+import { RandomizerType } from './rng';
+import type { RotationSystemType } from './rotation';
+import type { ScoringType } from './scoring';
+import { Action, Menu } from './types';
+
+/**
+ * The version of the replay format, gets increased whenever the format changes.
+ */
+export const REPLAY_VERSION = 3;
+
+/**
+ * The config options that change how a game plays out.
+ * These get saved with every replay, so that it can be played back exactly.
+ */
+export const REPLAY_CONFIG = [
+    'COLORED_BOARD',
+    'LINE_CLEAR_DELAY',
+    'RANDOMIZER',
+    'PIECE_BAG_AMOUNT',
+    'FIRST_PIECE_NO_OVERHANG',
+    'ROTATION_SYSTEM',
+    'KICKS_180',
+    'SCORING',
+    'GRAVITY_CURVE',
+    'CUSTOM_GRAVITY',
+    'PIECE_SET',
+    'CUSTOM_PIECE_SET',
+    'PIECE_LOCK_TICKS',
+    'LOCK_MOVE_RESETS',
+    'CHEESE_LINES',
+    'CHEESE_MINIMUM_GARBAGE',
+    'GARBAGE_MESSINESS',
+    'SURVIVAL_INTERVAL',
+    'SURVIVAL_ACCELERATION'
+];
+
+/**
+ * The rules a game was played with, taken from the game itself.
+ * The config might have been changed since the game started, so it cannot be trusted for these.
+ */
+export interface ReplayRules {
+    randomizer: RandomizerType;
+    pieceBagAmount: number;
+    rotationSystem: RotationSystemType;
+    pieceSet: PieceSetDefinition;
+    scoring: ScoringType;
+    gravityTable: number[][];
+    lockTicks: number;
+    lineClearDelay: number;
+}
+
+/**
+ * A recorded game, with everything that is needed to play it back.
+ */
+export interface Replay {
+    version: number;
+    // When the game was played, in milliseconds since 1970.
+    date: number;
+    mode: Menu;
+    seed: number;
+    startLevel: number;
+    maxLines: number | null;
+    maxTime: number | null;
+    // Older replays do not have a board size, they were always played on the usual board.
+    boardWidth?: number;
+    boardHeight?: number;
+    // Only replays of custom modes have one, with the rules of the mode.
+    customMode?: CustomMode;
+    // Only replays of puzzles have one.
+    puzzle?: Puzzle;
+    // Only replays of games from the board editor have one.
+    setup?: BoardSetup;
+    config: { [name: string]: string };
+    // Older replays do not have these, they get played with the rules from their config.
+    rules?: ReplayRules;
+    // The amount of ticks the game ran for.
+    frames: number;
+    score: number;
+    time: number;
+    // The compact input log, see encodeInputs().
+    inputs: string;
+}
+
+/**
+ * Encodes the input log into a compact string.
+ * Every input is the amount of frames since the last input (in base 36, left out if 0),
+ * followed by a single uppercase letter for the action.
+ * So "AvFE" would be a left move on frame 0, a rotation on frame 31, and a hard drop on frame 31.
+ */
+export const encodeInputs = (inputs: number[][]): string => {
+    let encoded = '';
+    let lastFrame = 0;
+
+    for (let i = 0; i < inputs.length; i++) {
+        const delta = inputs[i][0] - lastFrame;
+        encoded += (delta > 0 ? delta.toString(36) : '') + String.fromCharCode(65 + inputs[i][1]);
+        lastFrame = inputs[i][0];
+    }
+
+    return encoded;
+};
+
+/**
+ * Decodes the compact input string back into an input log.
+ */
+export const decodeInputs = (encoded: string): number[][] => {
+    const inputs: number[][] = [];
+    const regex = /([0-9a-z]*)([A-Z])/g;
+
+    let frame = 0;
+    let match = regex.exec(encoded);
+
+    while (match !== null) {
+        frame += match[1] === '' ? 0 : parseInt(match[1], 36);
+        inputs.push([frame, match[2].charCodeAt(0) - 65]);
+        match = regex.exec(encoded);
+    }
+
+    return inputs;
+};
+
+/**
+ * Creates a replay out of a (usually finished) game.
+ */
+export const createReplay = (game: Game): Replay => {
+    const config: { [name: string]: string } = {};
+
+    for (let i = 0; i < REPLAY_CONFIG.length; i++) {
+        config[REPLAY_CONFIG[i]] = String(CONFIG[REPLAY_CONFIG[i] as keyof typeof CONFIG].value);
+    }
+
+    return {
+        version: REPLAY_VERSION,
+        date: Date.now(),
+        mode: game.mode,
+        seed: game.seed,
+        startLevel: game.startLevel,
+        maxLines: game.maxLines,
+        maxTime: game.maxTime,
+        boardWidth: game.board.width,
+        boardHeight: game.board.height,
+        customMode: game.customMode ?? undefined,
+        puzzle: game.puzzle ?? undefined,
+        setup: game.setup ?? undefined,
+        config: config,
+        rules: {
+            randomizer: game.randomizer,
+            pieceBagAmount: game.pieceBagAmount,
+            rotationSystem: game.rotationSystem,
+            pieceSet: game.pieceSetDefinition,
+            scoring: game.scoring,
+            gravityTable: game.gravityTable.map((entry) => entry.slice()),
+            lockTicks: game.lockTicks,
+            lineClearDelay: game.lineClearDelay
+        },
+        frames: game.frame,
+        score: game.score,
+        time: game.timer.currentTime,
+        inputs: encodeInputs(game.inputLog)
+    };
+};
+
+/**
+ * Turns a replay into a string, for saving it as a file.
+ */
+export const exportReplay = (replay: Replay): string => {
+    return JSON.stringify(replay);
+};
+
+/**
+ * Reads a replay from an exported string.
+ * Throws an error if the replay is not valid.
+ */
+export const importReplay = (text: string): Replay => {
+    let replay: Replay;
+
+    try {
+        replay = JSON.parse(text);
+    } catch {
+        throw new Error('NOT A REPLAY FILE');
+    }
+
+    if (typeof replay !== 'object' || replay === null || typeof replay.version !== 'number') {
+        throw new Error('NOT A REPLAY FILE');
+    }
+
+    if (replay.version > REPLAY_VERSION) {
+        throw new Error('REPLAY IS FROM A NEWER VERSION');
+    }
+
+    if (
+        typeof replay.seed !== 'number' ||
+        typeof replay.mode !== 'number' ||
+        typeof replay.startLevel !== 'number' ||
+        typeof replay.frames !== 'number' ||
+        typeof replay.inputs !== 'string' ||
+        typeof replay.config !== 'object' ||
+        !/^([0-9a-z]*[A-Z])*$/.test(replay.inputs)
+    ) {
+        throw new Error('REPLAY FILE IS DAMAGED');
+    }
+
+    if (
+        replay.rules !== undefined &&
+        (typeof replay.rules !== 'object' ||
+            replay.rules === null ||
+            typeof replay.rules.pieceSet !== 'object' ||
+            replay.rules.pieceSet === null ||
+            !Array.isArray(replay.rules.pieceSet.pieces) ||
+            !Array.isArray(replay.rules.gravityTable))
+    ) {
+        throw new Error('REPLAY FILE IS DAMAGED');
+    }
+
+    const inputs = decodeInputs(replay.inputs);
+    for (let i = 0; i < inputs.length; i++) {
+        if (Action[inputs[i][1]] === undefined) {
+            throw new Error('REPLAY FILE IS DAMAGED');
+        }
+    }
+
+    // Older replays only knew about the modern (7-bag) and the classic piece generation.
+    if (replay.config.RANDOMIZER === undefined && replay.config.MODERN_PIECE_RNG !== undefined) {
+        replay.config.RANDOMIZER = String(
+            replay.config.MODERN_PIECE_RNG === 'true' ? RandomizerType.Bag7 : RandomizerType.Classic
+        );
+    }
+
+    if (replay.customMode !== undefined) {
+        try {
+            replay.customMode = parseCustomMode(JSON.stringify(replay.customMode));
+        } catch {
+            throw new Error('REPLAY FILE IS DAMAGED');
+        }
+    }
+
+    if (replay.puzzle !== undefined) {
+        try {
+            replay.puzzle = parsePuzzlePack(
+                JSON.stringify({ name: '', puzzles: [replay.puzzle] })
+            ).puzzles[0];
+        } catch {
+            throw new Error('REPLAY FILE IS DAMAGED');
+        }
+    }
+
+    if (replay.setup !== undefined) {
+        try {
+            replay.setup = parseBoardSetup(JSON.stringify(replay.setup));
+        } catch {
+            throw new Error('REPLAY FILE IS DAMAGED');
+        }
+    }
+
+    return replay;
+};
+
+/**
+ * The name the best replay of a mode is saved under, custom modes each have their own.
+ */
+export const getBestReplayName = (gameMode: Menu, customMode: CustomMode | null = null): string => {
+    return customMode ? `best-${gameMode}-${getCustomModeId(customMode)}` : `best-${gameMode}`;
+};
+
+/**
+ * Saves a replay to local storage.
+ */
+export const saveReplay = (name: string, replay: Replay): void => {
+    localStorage.setItem(`replay-${name}`, exportReplay(replay));
+};
+
+/**
+ * Loads a replay from local storage, returns null if there is none (or it is broken).
+ */
+export const loadReplay = (name: string): Replay | null => {
+    const r = localStorage.getItem(`replay-${name}`);
+
+    if (r === null) {
+        return null;
+    }
+
+    try {
+        return importReplay(r);
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,166 @@
+import { CONFIG } from './config';
+import { Game } from './game';
+import { decodeInputs, REPLAY_CONFIG, type Replay } from './replay';
+
+/**
+ * Plays back a replay, by feeding the recorded inputs into a new game with the same seed.
+ */
+export class ReplayPlayer {
+    replay: Replay;
+    inputs: number[][];
+    game: Game;
+
+    // The index of the next input that needs to be played back.
+    inputIndex: number;
+
+    playing: boolean;
+    // The playback speed, 1 being real time.
+    speed: number;
+    // For speeds below 1x, we need to keep track of partial ticks.
+    tickProgress: number;
+
+    // The config values from before the replay was loaded, these get restored when leaving.
+    originalConfig: { [name: string]: string | number | boolean };
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.inputs = decodeInputs(replay.inputs);
+
+        this.originalConfig = {};
+        this.applyConfig();
+
+        this.game = this.createGame();
+        this.inputIndex = 0;
+
+        this.playing = false;
+        this.speed = 1;
+        this.tickProgress = 0;
+    }
+
+    /**
+     * Sets the config options the replay was recorded with.
+     * These are only set in memory, not in local storage.
+     */
+    applyConfig(): void {
+        for (let i = 0; i < REPLAY_CONFIG.length; i++) {
+            const name = REPLAY_CONFIG[i] as keyof typeof CONFIG;
+            // Older replays do not know about newer options, they were played with the default back then.
+            const value = this.replay.config[name] ?? CONFIG[name].defaultValue;
+
+            this.originalConfig[name] = CONFIG[name].value;
+
+            if (typeof CONFIG[name].value === 'boolean') {
+                (CONFIG[name].value as boolean) = value === 'true';
+            } else if (typeof CONFIG[name].value === 'number') {
+                (CONFIG[name].value as number) = Number(value);
+            } else {
+                (CONFIG[name].value as string) = value;
+            }
+        }
+    }
+
+    /**
+     * Restores the config options from before the replay was loaded.
+     */
+    restoreConfig(): void {
+        for (const name in this.originalConfig) {
+            (CONFIG[name as keyof typeof CONFIG].value as string | number | boolean) =
+                this.originalConfig[name];
+        }
+    }
+
+    /**
+     * Creates the game that the replay gets played back in.
+     */
+    createGame(): Game {
+        const game = new Game(
+            this.replay.mode,
+            this.replay.maxLines,
+            this.replay.maxTime,
+            this.replay.startLevel,
+            this.replay.seed,
+            false,
+            this.replay.boardWidth,
+            this.replay.boardHeight,
+            this.replay.customMode ?? null,
+            this.replay.puzzle ?? null,
+            this.replay.setup ?? null,
+            this.replay.rules ?? null
+        );
+
+        game.frozen = false;
+
+        return game;
+    }
+
+    /**
+     * Returns if the replay has reached its end.
+     */
+    isFinished(): boolean {
+        return (
+            this.game.over ||
+            this.game.finished ||
+            (this.game.frame >= this.replay.frames && this.inputIndex >= this.inputs.length)
+        );
+    }
+
+    /**
+     * Plays back the inputs of the current frame, and then advances the game by a tick.
+     */
+    step(): void {
+        while (
+            this.inputIndex < this.inputs.length &&
+            this.inputs[this.inputIndex][0] <= this.game.frame
+        ) {
+            this.game.performAction(this.inputs[this.inputIndex][1]);
+            this.inputIndex++;
+        }
+
+        if (!this.isFinished()) {
+            this.game.advanceTick();
+        }
+    }
+
+    /**
+     * Gets called every tick (1/60th of a second) while the replay viewer is open.
+     * Advances the replay according to the playback speed.
+     */
+    update(): void {
+        if (!this.playing) {
+            return;
+        }
+
+        this.tickProgress += this.speed;
+
+        while (this.tickProgress >= 1 && !this.isFinished()) {
+            this.step();
+            this.tickProgress--;
+        }
+
+        if (this.isFinished()) {
+            this.playing = false;
+            this.tickProgress = 0;
+        }
+    }
+
+    /**
+     * Jumps to a specific frame of the replay.
+     * Since the game cannot run backwards, going back restarts the game and fast-forwards it.
+     */
+    seek(frame: number): void {
+        if (frame < this.game.frame) {
+            this.game = this.createGame();
+            this.inputIndex = 0;
+        }
+
+        // We do not want to hear hundreds of sounds while fast-forwarding.
+        this.game.audioPlayer.muted = true;
+
+        while (this.game.frame < frame && !this.isFinished()) {
+            this.step();
+        }
+
+        this.game.audioPlayer.muted = false;
+        this.tickProgress = 0;
+    }
+}
@@ -3,80 +3,358 @@ import { allPieces } from './pieceData';
 import type { Piece } from './pieces';
 
 /**
- * Gets you a random piece, depending on whether or not modern rng is enabled.
+ * Generates a new random seed, used when the player does not enter one.
  */
-export const getRandomPiece = (
-    nextPieces: Piece[],
-    pieceBagSize: number,
-    firstPiece: boolean = false
-): Piece[] => {
-    if (CONFIG.MODERN_PIECE_RNG.value) {
-        return getRandomPieceModern(nextPieces, pieceBagSize, firstPiece);
-    } else {
-        return getRandomPieceClassic(nextPieces);
-    }
+export const generateSeed = (): number => {
+    return Math.floor(Math.random() * 4294967296);
 };
 
 /**
- * Gets a truly random piece, like in classic versions of Tetris.
+ * Converts the text the player entered into a seed.
+ * Numbers are used as they are, any other text gets hashed into a number.
+ * Returns null for an empty input, meaning a random seed should be used.
  */
-export const getRandomPieceClassic = (nextPieces: Piece[]): Piece[] => {
-    // We have to have at least 14 pieces in the next piece queue, for displaying them all.
-    // So we fill it up to this point.
-    while (nextPieces.length <= 14) {
-        const pieces = allPieces.slice();
+export const parseSeed = (input: string): number | null => {
+    const trimmed = input.trim();
 
-        const p = pieces[Math.floor(Math.random() * pieces.length)];
+    if (trimmed === '') {
+        return null;
+    }
 
-        nextPieces.push(p);
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) % 4294967296;
     }
 
-    return nextPieces;
+    // A simple FNV-1a hash, so that you can also share seeds like "FRIDAY RACE".
+    let hash = 2166136261;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+
+    return hash >>> 0;
 };
 
 /**
- * Gets you a pseudo-random shuffled piece bag, like in modern Tetris versions.
+ * Gets the seed for the garbage of a game, which has its own random generator.
+ * That way the pieces only depend on the seed, and not on how much garbage came up.
  */
-export const getRandomPieceModern = (
-    nextPieces: Piece[],
-    pieceBagSize: number,
-    firstPiece: boolean = false
-): Piece[] => {
-    // We have to have at least 14 pieces in the next piece queue, for displaying them all.
-    // If we do already have those we just return.
-    if (nextPieces.length > 14) {
-        return nextPieces;
+export const getGarbageSeed = (seed: number): number => {
+    return (seed ^ 0x9e3779b9) >>> 0;
+};
+
+/**
+ * A small seedable pseudo random number generator.
+ * Two generators with the same seed always return the same sequence of numbers,
+ * which is what makes games reproducible.
+ *
+ * This uses the Mulberry32 algorithm: https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+ */
+export class Random {
+    seed: number;
+    // The internal state, which changes with every generated number.
+    state: number;
+
+    constructor(seed: number = generateSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
     }
 
-    // Otherwise we will push the next 7 * (Piece Bag Size) pieces onto the next piece queue.
-    let pieceBag = [];
+    /**
+     * Returns a number between 0 (inclusive) and 1 (exclusive), just like Math.random().
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
 
-    for (let i = 0; i < pieceBagSize; i++) {
-        pieceBag.push(...allPieces.slice());
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
     }
 
-    // From: https://stackoverflow.com/questions/6274339/how-can-i-shuffle-an-array
-    function shuffle(a: Array<any>) {
+    /**
+     * Returns a whole number between 0 (inclusive) and max (exclusive).
+     */
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    /**
+     * Shuffles an array in place and returns it.
+     */
+    shuffle<T>(a: T[]): T[] {
+        // From: https://stackoverflow.com/questions/6274339/how-can-i-shuffle-an-array
         for (let i = a.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = this.nextInt(i + 1);
             [a[i], a[j]] = [a[j], a[i]];
         }
         return a;
     }
+}
 
-    pieceBag = shuffle(pieceBag);
+/**
+ * The algorithms that decide the order of the pieces.
+ */
+export enum RandomizerType {
+    Classic,
+    Bag7,
+    Bag14,
+    Bag7Plus1,
+    TGM,
+    NES,
+    Drought
+}
+
+/**
+ * A piece randomizer. The queue holds the latest pieces (newest last), which is all the history the algorithms need.
+ */
+export interface Randomizer {
+    name: string;
+    // Bags are generated as a whole whenever the queue runs low, the other algorithms generate one piece at a time.
+    bag: boolean;
+    generate: (
+        queue: Piece[],
+        pieceSet: Piece[],
+        random: Random,
+        firstPiece: boolean,
+        bagAmount: number
+    ) => Piece[];
+}
+
+// The pieces kept in the queue, so that all of them can be displayed.
+const QUEUE_LENGTH = 14;
+
+// The TGM randomizer remembers the last 4 pieces, and tries up to 6 times to get a piece that is not among them.
+const TGM_HISTORY = 4;
+const TGM_ROLLS = 6;
+
+// With drought protection, no piece stays away for longer than this (with the usual seven pieces).
+export const DROUGHT_LIMIT = 12;
+
+/**
+ * Gets a shuffled bag with every piece in it, a few times.
+ * Bags with extras get that many random pieces on top of each one.
+ */
+const getBag = (
+    pieceSet: Piece[],
+    random: Random,
+    firstPiece: boolean,
+    copies: number,
+    extras: number = 0
+): Piece[] => {
+    let pieceBag = [];
+
+    for (let i = 0; i < copies; i++) {
+        pieceBag.push(...pieceSet.map((p) => p.clone()));
+
+        for (let j = 0; j < extras; j++) {
+            pieceBag.push(pieceSet[random.nextInt(pieceSet.length)].clone());
+        }
+    }
+
+    pieceBag = random.shuffle(pieceBag);
 
     // If this is the first piece being generated, we do not want a piece that can generate an "overhang".
-    if (firstPiece && CONFIG.FIRST_PIECE_NO_OVERHANG.value) {
-        // We just shuffle the bag until the first piece is not S, Z or O.
+    // Some sets only have pieces like these, then there is nothing we can do.
+    if (firstPiece && CONFIG.FIRST_PIECE_NO_OVERHANG.value && pieceBag.some((p) => !p.overhang)) {
+        // We just shuffle the bag until the first piece is not S, Z or O (or a piece like them).
         let piece = pieceBag[0];
-        while (piece.name === 'Z' || piece.name === 'S' || piece.name === 'O') {
-            pieceBag = shuffle(pieceBag);
+        while (piece.overhang) {
+            pieceBag = random.shuffle(pieceBag);
             piece = pieceBag[0];
         }
     }
 
-    nextPieces.push(...pieceBag);
+    return pieceBag;
+};
+
+/**
+ * The TGM randomizer, which rerolls pieces that were among the last four.
+ * The very first piece is never an S, Z or O, like in the arcade.
+ *
+ * See more information here: https://tetris.wiki/TGM_randomizer
+ */
+const getTgmPiece = (queue: Piece[], pieceSet: Piece[], random: Random): Piece[] => {
+    if (queue.length === 0) {
+        const pieces = pieceSet.some((p) => !p.overhang)
+            ? pieceSet.filter((p) => !p.overhang)
+            : pieceSet;
+        return [pieces[random.nextInt(pieces.length)].clone()];
+    }
+
+    const history = queue.slice(-TGM_HISTORY).map((p) => p.name);
+
+    let piece = pieceSet[random.nextInt(pieceSet.length)];
+    for (let i = 1; i < TGM_ROLLS && history.includes(piece.name); i++) {
+        piece = pieceSet[random.nextInt(pieceSet.length)];
+    }
+
+    return [piece.clone()];
+};
+
+/**
+ * The NES randomizer, which rolls one more number than there are pieces.
+ * If that extra number or the same piece as last time comes up, it rolls once more.
+ *
+ * See more information here: https://meatfighter.com/nintendotetrisai/#Picking_Tetriminos
+ */
+const getNesPiece = (queue: Piece[], pieceSet: Piece[], random: Random): Piece[] => {
+    const last = queue.length > 0 ? queue[queue.length - 1].name : null;
+
+    const roll = random.nextInt(pieceSet.length + 1);
+    if (roll === pieceSet.length || pieceSet[roll].name === last) {
+        return [pieceSet[random.nextInt(pieceSet.length)].clone()];
+    }
+
+    return [pieceSet[roll].clone()];
+};
+
+/**
+ * A truly random piece, except for pieces that have not shown up for too long, which come next.
+ * The limit grows with the size of the set, but the history only reaches as far back as the queue,
+ * so very large sets end up truly random.
+ */
+const getDroughtPiece = (queue: Piece[], pieceSet: Piece[], random: Random): Piece[] => {
+    const limit = Math.round((DROUGHT_LIMIT * pieceSet.length) / 7);
+
+    let longest = -1;
+    let droughtPiece: Piece | null = null;
+
+    for (let i = 0; i < pieceSet.length; i++) {
+        let last = -1;
+        for (let j = queue.length - 1; j >= 0; j--) {
+            if (queue[j].name === pieceSet[i].name) {
+                last = j;
+                break;
+            }
+        }
+
+        const drought = queue.length - 1 - last;
+        if (drought >= limit && drought > longest) {
+            longest = drought;
+            droughtPiece = pieceSet[i];
+        }
+    }
+
+    if (droughtPiece) {
+        return [droughtPiece.clone()];
+    }
+
+    return [pieceSet[random.nextInt(pieceSet.length)].clone()];
+};
+
+/**
+ * The randomizers, in the order of the RandomizerType enum.
+ */
+export const RANDOMIZERS: Randomizer[] = [
+    {
+        name: 'CLASSIC',
+        bag: false,
+        generate: (queue, pieceSet, random) => [pieceSet[random.nextInt(pieceSet.length)].clone()]
+    },
+    {
+        name: '7-BAG',
+        bag: true,
+        generate: (queue, pieceSet, random, firstPiece, bagAmount) =>
+            getBag(pieceSet, random, firstPiece, bagAmount)
+    },
+    {
+        name: '14-BAG',
+        bag: true,
+        generate: (queue, pieceSet, random, firstPiece, bagAmount) =>
+            getBag(pieceSet, random, firstPiece, bagAmount * 2)
+    },
+    {
+        name: '7+1 BAG',
+        bag: true,
+        generate: (queue, pieceSet, random, firstPiece, bagAmount) =>
+            getBag(pieceSet, random, firstPiece, bagAmount, 1)
+    },
+    {
+        name: 'TGM',
+        bag: false,
+        generate: getTgmPiece
+    },
+    {
+        name: 'NES',
+        bag: false,
+        generate: getNesPiece
+    },
+    {
+        name: 'DROUGHT PROTECTION',
+        bag: false,
+        generate: getDroughtPiece
+    }
+];
+
+/**
+ * Fills up the piece queue with the chosen randomizer.
+ */
+export const getRandomPiece = (
+    nextPieces: Piece[],
+    pieceBagSize: number,
+    firstPiece: boolean = false,
+    random: Random = new Random(),
+    pieceSet: Piece[] = allPieces,
+    randomizer: RandomizerType = CONFIG.RANDOMIZER.value
+): Piece[] => {
+    const generator = RANDOMIZERS[randomizer] ?? RANDOMIZERS[RandomizerType.Bag7];
+
+    // We have to have at least 14 pieces in the next piece queue, for displaying them all.
+    // A bag only gets generated if the queue runs low, the other pieces one by one until it is full.
+    if (generator.bag) {
+        if (nextPieces.length <= QUEUE_LENGTH) {
+            nextPieces.push(
+                ...generator.generate(nextPieces, pieceSet, random, firstPiece, pieceBagSize)
+            );
+        }
+
+        return nextPieces;
+    }
+
+    while (nextPieces.length <= QUEUE_LENGTH) {
+        nextPieces.push(
+            ...generator.generate(
+                nextPieces,
+                pieceSet,
+                random,
+                firstPiece && nextPieces.length === 0,
+                pieceBagSize
+            )
+        );
+    }
 
     return nextPieces;
 };
+
+/**
+ * Gets a truly random piece, like in classic versions of Tetris.
+ */
+export const getRandomPieceClassic = (
+    nextPieces: Piece[],
+    random: Random = new Random(),
+    pieceSet: Piece[] = allPieces
+): Piece[] => {
+    return getRandomPiece(nextPieces, 1, false, random, pieceSet, RandomizerType.Classic);
+};
+
+/**
+ * Gets you a pseudo-random shuffled piece bag, like in modern Tetris versions.
+ */
+export const getRandomPieceModern = (
+    nextPieces: Piece[],
+    pieceBagSize: number,
+    firstPiece: boolean = false,
+    random: Random = new Random(),
+    pieceSet: Piece[] = allPieces
+): Piece[] => {
+    return getRandomPiece(
+        nextPieces,
+        pieceBagSize,
+        firstPiece,
+        random,
+        pieceSet,
+        RandomizerType.Bag7
+    );
+};
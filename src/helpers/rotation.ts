@@ -0,0 +1,889 @@
+/**
+ * The rotation systems a player can choose from.
+ * The value gets saved in the config, so new systems have to be added at the end.
+ */
+export enum RotationSystemType {
+    SRS,
+    ARS,
+    Classic
+}
+
+/**
+ * Gets the column pieces spawn in, so that they are centered on the board (rounded to the left).
+ * On the usual 10 wide board, this is the fourth column.
+ */
+export const getSpawnColumn = (boardWidth: number): number => {
+    return Math.floor((boardWidth - 4) / 2);
+};
+
+/**
+ * Everything that makes up a rotation system.
+ * Wall kicks are [X, Y] offsets, with Y going up.
+ */
+export interface RotationSystem {
+    name: string;
+    // The rotation states of every piece by name, in clockwise order.
+    rotations: { [piece: string]: number[][][] };
+    // If pieces can be rotated by 180° in a single step.
+    rotate180: boolean;
+    // Gets the wall kicks to try for a rotation, in order. The first one is always [0, 0].
+    getWallKicks: (
+        piece: string,
+        rotation: number,
+        clockwise: boolean,
+        rotate180: boolean
+    ) => number[][];
+    // Gets the offset a piece spawns at, on a board with the given width.
+    getSpawnOffset: (piece: string, boardWidth: number) => number[];
+    // The centre and the front corners of the T in every rotation state, for detecting T-Spins.
+    tSpinCorners: TSpinCorners[];
+}
+
+/**
+ * The centre of the T in one of its rotation states, as [row, column] within the rotation state.
+ * The front corners are the diagonal corners on the side the T points to, relative to the centre.
+ * The other two diagonal corners are the back corners.
+ */
+export interface TSpinCorners {
+    centre: number[];
+    front: number[][];
+}
+
+// The front corners of a T pointing in each direction.
+const T_POINTING_UP = [
+    [-1, -1],
+    [-1, 1]
+];
+const T_POINTING_RIGHT = [
+    [-1, 1],
+    [1, 1]
+];
+const T_POINTING_DOWN = [
+    [1, -1],
+    [1, 1]
+];
+const T_POINTING_LEFT = [
+    [-1, -1],
+    [1, -1]
+];
+
+// These rotations are from the "Super Rotation System (SRS)"
+// https://strategywiki.org/wiki/Tetris/Rotation_systems
+
+const iRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0]
+    ]
+];
+
+const jRotations = [
+    [
+        [1, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const lRotations = [
+    [
+        [0, 0, 1, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [1, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const oRotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const sRotations = [
+    [
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const zRotations = [
+    [
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [1, 0, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const tRotations = [
+    [
+        [0, 1, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const tSpinCorners: TSpinCorners[] = [
+    { centre: [1, 1], front: T_POINTING_UP },
+    { centre: [1, 1], front: T_POINTING_RIGHT },
+    { centre: [1, 1], front: T_POINTING_DOWN },
+    { centre: [1, 1], front: T_POINTING_LEFT }
+];
+
+// SRS does not have an official wall kick table for 180° rotations, so we use the ones modern stackers use.
+// The J, L, S, T and Z kicks are the SRS+ table of TETR.IO: https://twitter.com/tetriogame/status/1271572187309375491
+// They are indexed by the starting rotation, and the [0, 0] kick comes before them.
+const kicks180 = [
+    // 0 >> 2
+    [
+        [0, 1],
+        [1, 1],
+        [-1, 1],
+        [1, 0],
+        [-1, 0]
+    ],
+    // 1 >> 3
+    [
+        [1, 0],
+        [1, 2],
+        [1, 1],
+        [0, 2],
+        [0, 1]
+    ],
+    // 2 >> 0
+    [
+        [0, -1],
+        [-1, -1],
+        [1, -1],
+        [-1, 0],
+        [1, 0]
+    ],
+    // 3 >> 1
+    [
+        [-1, 0],
+        [-1, 2],
+        [-1, 1],
+        [0, 2],
+        [0, 1]
+    ]
+];
+
+// The I piece shifts inside of its 4x4 box when it turns around, so its first kick moves it back onto the same cells.
+// After that it tries one and then two cells to either side, similar to the I kicks of SRS-X.
+const iKicks180 = [
+    // 0 >> 2
+    [
+        [0, 1],
+        [1, 1],
+        [-1, 1],
+        [2, 1],
+        [-2, 1]
+    ],
+    // 1 >> 3
+    [
+        [1, 0],
+        [1, 1],
+        [1, -1],
+        [1, 2],
+        [1, -2]
+    ],
+    // 2 >> 0
+    [
+        [0, -1],
+        [-1, -1],
+        [1, -1],
+        [-2, -1],
+        [2, -1]
+    ],
+    // 3 >> 1
+    [
+        [-1, 0],
+        [-1, 1],
+        [-1, -1],
+        [-1, 2],
+        [-1, -2]
+    ]
+];
+
+/**
+ * Gets you the SRS wall kick offsets for each piece.
+ * This is taken from: https://tetris.fandom.com/wiki/SRS#Wall_Kicks
+ */
+const getSrsWallKicks = (
+    piece: string,
+    rotation: number,
+    clockwise: boolean,
+    rotate180: boolean
+): number[][] => {
+    const wallKicks: number[][] = [];
+
+    wallKicks.push([0, 0]);
+
+    // The O piece does not kick.
+    if (piece === 'O') {
+        return wallKicks;
+    }
+
+    if (rotate180) {
+        wallKicks.push(...(piece === 'I' ? iKicks180 : kicks180)[rotation]);
+        return wallKicks;
+    }
+
+    // The I piece has special kick values due to its shape.
+    if (piece === 'I') {
+        if (rotation === 0) {
+            clockwise
+                ? wallKicks.push([-2, 0], [1, 0], [-2, -1], [1, 2]) // 0 >> 1
+                : wallKicks.push([-1, 0], [2, 0], [-1, 2], [2, -1]); // 0 >> 3
+        } else if (rotation === 1) {
+            clockwise
+                ? wallKicks.push([-1, 0], [2, 0], [-1, 2], [2, -1]) // 1 >> 2
+                : wallKicks.push([2, 0], [-1, 0], [2, 1], [-1, 2]); // 1 >> 0
+        } else if (rotation === 2) {
+            clockwise
+                ? wallKicks.push([2, 0], [-1, 0], [2, 1], [-1, -2]) // 2 >> 3
+                : wallKicks.push([1, 0], [-2, 0], [1, -2], [-2, 1]); // 2 >> 1
+        } else if (rotation == 3) {
+            clockwise
+                ? wallKicks.push([1, 0], [-2, 0], [1, -2], [-2, 1]) // 3 >> 0
+                : wallKicks.push([-2, 0], [1, 0], [-2, -1], [1, 2]); // 3 >> 2
+        }
+
+        return wallKicks;
+    }
+
+    // And the J, L, T, S, and Z pieces all share kick values.
+    if (rotation === 0) {
+        clockwise
+            ? wallKicks.push([-1, 0], [-1, 1], [0, -2], [-1, -2]) // 0 >> 1
+            : wallKicks.push([1, 0], [1, 1], [0, -2], [1, -2]); // 0 >> 3
+    } else if (rotation === 1) {
+        clockwise
+            ? wallKicks.push([1, 0], [1, -1], [0, 2], [1, 2]) // 1 >> 2
+            : wallKicks.push([1, 0], [1, -1], [0, 2], [1, 2]); // 1 >> 0
+    } else if (rotation === 2) {
+        clockwise
+            ? wallKicks.push([1, 0], [1, 1], [0, -2], [1, -2]) // 2 >> 3
+            : wallKicks.push([-1, 0], [-1, 1], [0, -2], [-1, -2]); // 2 >> 1
+    } else if (rotation == 3) {
+        clockwise
+            ? wallKicks.push([-1, 0], [-1, -1], [0, 2], [-1, 2]) // 3 >> 0
+            : wallKicks.push([-1, 0], [-1, -1], [0, 2], [-1, 2]); // 3 >> 2
+    }
+
+    return wallKicks;
+};
+
+// These rotations are from the "Arika Rotation System (ARS)", used in the Tetris The Grand Master games.
+// All pieces sit at the bottom of their box, and the I, S and Z only have two states.
+// https://tetris.wiki/ARS
+
+const arsIRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0]
+    ]
+];
+
+const arsJRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const arsLRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [1, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 0, 1, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const arsORotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const arsSRotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const arsZRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const arsTRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+// The ARS T spawns pointing down, and its flat side rests on the bottom row when it points up.
+const arsTSpinCorners: TSpinCorners[] = [
+    { centre: [1, 1], front: T_POINTING_DOWN },
+    { centre: [1, 1], front: T_POINTING_LEFT },
+    { centre: [2, 1], front: T_POINTING_UP },
+    { centre: [1, 1], front: T_POINTING_RIGHT }
+];
+
+/**
+ * Gets you the ARS wall kick offsets.
+ * If the rotation does not fit, the piece tries one to the right and then one to the left.
+ * The I piece never kicks, and the center column rule of the J, L and T is left out.
+ */
+const getArsWallKicks = (piece: string): number[][] => {
+    if (piece === 'I' || piece === 'O') {
+        return [[0, 0]];
+    }
+
+    return [
+        [0, 0],
+        [1, 0],
+        [-1, 0]
+    ];
+};
+
+// These rotations are from the classic NES version.
+// The pieces rotate around their center without any kicks, and the I, S and Z only have two states.
+// https://tetris.wiki/Nintendo_Rotation_System
+
+const classicIRotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0]
+    ]
+];
+
+const classicJRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const classicLRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [1, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const classicORotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const classicSRotations = [
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [0, 1, 1, 0],
+        [1, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const classicZRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 0, 1, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+const classicTRotations = [
+    [
+        [0, 0, 0, 0],
+        [1, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [1, 1, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0]
+    ],
+    [
+        [0, 1, 0, 0],
+        [0, 1, 1, 0],
+        [0, 1, 0, 0],
+        [0, 0, 0, 0]
+    ]
+];
+
+// The classic T spawns pointing down as well, but keeps its centre in every state.
+const classicTSpinCorners: TSpinCorners[] = [
+    { centre: [1, 1], front: T_POINTING_DOWN },
+    { centre: [1, 1], front: T_POINTING_LEFT },
+    { centre: [1, 1], front: T_POINTING_UP },
+    { centre: [1, 1], front: T_POINTING_RIGHT }
+];
+
+/**
+ * The rotation systems, in the order of the RotationSystemType enum.
+ */
+export const ROTATION_SYSTEMS: RotationSystem[] = [
+    {
+        name: 'SRS',
+        rotations: {
+            I: iRotations,
+            J: jRotations,
+            L: lRotations,
+            O: oRotations,
+            S: sRotations,
+            Z: zRotations,
+            T: tRotations
+        },
+        rotate180: true,
+        getWallKicks: getSrsWallKicks,
+        getSpawnOffset: (piece, boardWidth) => [0, getSpawnColumn(boardWidth)],
+        tSpinCorners: tSpinCorners
+    },
+    {
+        name: 'ARS',
+        rotations: {
+            I: arsIRotations,
+            J: arsJRotations,
+            L: arsLRotations,
+            O: arsORotations,
+            S: arsSRotations,
+            Z: arsZRotations,
+            T: arsTRotations
+        },
+        // The Grand Master games do not have 180° rotations.
+        rotate180: false,
+        getWallKicks: getArsWallKicks,
+        getSpawnOffset: (piece, boardWidth) => [0, getSpawnColumn(boardWidth)],
+        tSpinCorners: arsTSpinCorners
+    },
+    {
+        name: 'CLASSIC',
+        rotations: {
+            I: classicIRotations,
+            J: classicJRotations,
+            L: classicLRotations,
+            O: classicORotations,
+            S: classicSRotations,
+            Z: classicZRotations,
+            T: classicTRotations
+        },
+        rotate180: false,
+        getWallKicks: () => [[0, 0]],
+        // The 3 wide pieces spawn one column further right, centered on the sixth column.
+        getSpawnOffset: (piece, boardWidth) => [
+            0,
+            getSpawnColumn(boardWidth) + (piece === 'I' || piece === 'O' ? 0 : 1)
+        ],
+        tSpinCorners: classicTSpinCorners
+    }
+];
@@ -0,0 +1,289 @@
+import { Game } from './game';
+import { getPieceSet } from './pieceData';
+import type { Piece } from './pieces';
+import type { PieceSetDefinition } from './pieceSets';
+import type { RandomizerType } from './rng';
+import type { RotationSystemType } from './rotation';
+import type { ScoringType } from './scoring';
+import { applyPieceColors } from './style';
+import { Timer } from './timer';
+import type { Menu, Move } from './types';
+
+/**
+ * The version of the save format, gets increased whenever the format changes.
+ * Saves from older versions are discarded.
+ */
+export const SAVE_VERSION = 10;
+
+/**
+ * A piece, with its position on the board.
+ */
+export interface SavedPiece {
+    name: string;
+    rotation: number;
+    offset: number[];
+}
+
+/**
+ * The full state of a game in progress, so that it can be continued later on.
+ */
+export interface SavedGame {
+    version: number;
+    mode: Menu;
+    maxLines: number | null;
+    maxTime: number | null;
+    seed: number;
+    // The internal state of the random generator, so that the pieces and garbage stay the same.
+    randomState: number;
+    garbageRandomState: number;
+    randomizer: RandomizerType;
+    pieceBagAmount: number;
+    startLevel: number;
+    rotationSystem: RotationSystemType;
+    pieceSet: PieceSetDefinition;
+    scoring: ScoringType;
+    gravityTable: number[][];
+
+    board: number[][];
+    currentPiece: SavedPiece;
+    nextPieces: string[];
+    holdPiece: string | null;
+    canHold: boolean;
+    pieceCountList: number[];
+
+    lastMove: Move;
+    backToBack: number;
+    currentCombo: number;
+    comboLines: number;
+    garbageCleared: number;
+    currentDrop: number;
+
+    score: number;
+    lineCount: number;
+    lineCountList: number[];
+    level: number;
+    tSpinCountList: number[];
+    finesseFaults: number;
+
+    ticks: number;
+    frame: number;
+    time: number;
+
+    // The delays are kept as well, the config might have changed until the game gets continued.
+    lockTicks: number;
+    spawnDelay: number;
+    lineClearDelay: number;
+    lockTicksRemaining: number;
+    waitForLock: boolean;
+    lockMoveResets: number;
+    lineClearTicksRemaining: number;
+
+    inputLog: number[][];
+}
+
+/**
+ * Gets a new instance of a piece by its name.
+ */
+const getPiece = (name: string, pieceSet: Piece[]): Piece => {
+    const piece = pieceSet.find((p) => p.name === name);
+
+    if (!piece) {
+        throw new Error(`UNKNOWN PIECE ${name}`);
+    }
+
+    return piece.clone();
+};
+
+/**
+ * Captures the full state of a game.
+ */
+export const serializeGame = (game: Game): SavedGame => {
+    return {
+        version: SAVE_VERSION,
+        mode: game.mode,
+        maxLines: game.maxLines,
+        maxTime: game.maxTime,
+        seed: game.seed,
+        randomState: game.random.state,
+        garbageRandomState: game.garbageRandom.state,
+        randomizer: game.randomizer,
+        pieceBagAmount: game.pieceBagAmount,
+        startLevel: game.startLevel,
+        rotationSystem: game.rotationSystem,
+        pieceSet: game.pieceSetDefinition,
+        scoring: game.scoring,
+        gravityTable: game.gravityTable.map((entry) => entry.slice()),
+
+        board: game.board.GameBoard.map((row) => row.slice()),
+        currentPiece: {
+            name: game.currentPiece.name,
+            rotation: game.currentPiece.currentRotation,
+            offset: game.currentPiece.offset.slice()
+        },
+        nextPieces: game.nextPieces.map((p) => p.name),
+        holdPiece: game.holdPiece ? game.holdPiece.name : null,
+        canHold: game.canHold,
+        pieceCountList: game.pieceCountList.slice(),
+
+        lastMove: game.lastMove,
+        backToBack: game.backToBack,
+        currentCombo: game.currentCombo,
+        comboLines: game.comboLines,
+        garbageCleared: game.garbageCleared,
+        currentDrop: game.currentDrop,
+
+        score: game.score,
+        lineCount: game.lineCount,
+        lineCountList: game.lineCountList.slice(),
+        level: game.level,
+        tSpinCountList: game.tSpinCountList.slice(),
+        finesseFaults: game.finesseFaults,
+
+        ticks: game.ticks,
+        frame: game.frame,
+        time: game.timer.currentTime,
+
+        lockTicks: game.lockTicks,
+        spawnDelay: game.spawnDelay,
+        lineClearDelay: game.lineClearDelay,
+        lockTicksRemaining: game.lockTicksRemaining,
+        waitForLock: game.waitForLock,
+        lockMoveResets: game.lockMoveResets,
+        lineClearTicksRemaining: game.lineClearTicksRemaining,
+
+        inputLog: game.inputLog.map((input) => input.slice())
+    };
+};
+
+/**
+ * Creates a game from a saved state.
+ * The game is frozen, and continues once it gets started again.
+ */
+export const deserializeGame = (save: SavedGame, headless: boolean = false): Game => {
+    const game = new Game(
+        save.mode,
+        save.maxLines,
+        save.maxTime,
+        save.startLevel,
+        save.seed,
+        headless,
+        save.board[0].length,
+        save.board.length
+    );
+
+    game.random.state = save.randomState;
+    game.garbageRandom.state = save.garbageRandomState;
+    game.randomizer = save.randomizer;
+    game.pieceBagAmount = save.pieceBagAmount;
+    game.rotationSystem = save.rotationSystem;
+    game.pieceSetDefinition = save.pieceSet;
+    game.pieceSet = getPieceSet(save.rotationSystem, save.pieceSet);
+    applyPieceColors(save.pieceSet);
+    game.scoring = save.scoring;
+    game.gravityTable = save.gravityTable.map((entry) => entry.slice());
+
+    game.board.GameBoard = save.board.map((row) => row.slice());
+
+    // The current piece is already drawn on the saved board, so it does not get spawned again.
+    game.currentPiece = getPiece(save.currentPiece.name, game.pieceSet);
+    game.currentPiece.currentRotation = save.currentPiece.rotation;
+    game.currentPiece.offset = save.currentPiece.offset.slice();
+
+    game.nextPieces = save.nextPieces.map((name) => getPiece(name, game.pieceSet));
+    game.holdPiece = save.holdPiece === null ? null : getPiece(save.holdPiece, game.pieceSet);
+    game.canHold = save.canHold;
+    game.pieceCountList = save.pieceCountList.slice();
+
+    game.lastMove = save.lastMove;
+    game.backToBack = save.backToBack;
+    game.currentCombo = save.currentCombo;
+    game.comboLines = save.comboLines;
+    game.garbageCleared = save.garbageCleared;
+    game.currentDrop = save.currentDrop;
+
+    game.score = save.score;
+    game.lineCount = save.lineCount;
+    game.lineCountList = save.lineCountList.slice();
+    game.level = save.level;
+    game.tSpinCountList = save.tSpinCountList.slice();
+    game.finesseFaults = save.finesseFaults;
+
+    game.ticks = save.ticks;
+    game.frame = save.frame;
+    game.timer = new Timer(save.time);
+
+    game.lockTicks = save.lockTicks;
+    game.spawnDelay = save.spawnDelay;
+    game.lineClearDelay = save.lineClearDelay;
+    game.lockTicksRemaining = save.lockTicksRemaining;
+    game.waitForLock = save.waitForLock;
+    game.lockMoveResets = save.lockMoveResets;
+    game.lineClearTicksRemaining = save.lineClearTicksRemaining;
+
+    game.inputLog = save.inputLog.map((input) => input.slice());
+
+    game.shadowPiece = game.currentPiece.getShadowCoordinates(game.board);
+    game.frozen = true;
+
+    return game;
+};
+
+/**
+ * Suspends a game in progress, so that it can be continued after a reload.
+ */
+export const suspendGame = (game: Game): void => {
+    localStorage.setItem('suspended-game', JSON.stringify(serializeGame(game)));
+};
+
+/**
+ * Deletes the suspended game.
+ */
+export const clearSuspendedGame = (): void => {
+    localStorage.removeItem('suspended-game');
+};
+
+/**
+ * Reads the suspended game from local storage, without deleting it.
+ */
+const readSuspendedGame = (): SavedGame | null => {
+    const s = localStorage.getItem('suspended-game');
+
+    if (s === null) {
+        return null;
+    }
+
+    try {
+        const save: SavedGame = JSON.parse(s);
+        return save.version === SAVE_VERSION ? save : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Gets the game mode of the suspended game, or null if there is none.
+ */
+export const getSuspendedMode = (): Menu | null => {
+    const save = readSuspendedGame();
+
+    return save ? save.mode : null;
+};
+
+/**
+ * Loads the suspended game, returns null if there is none (or it is broken).
+ * The save gets deleted in the process, so that every suspended game can only be continued once.
+ */
+export const loadSuspendedGame = (): Game | null => {
+    const save = readSuspendedGame();
+    clearSuspendedGame();
+
+    if (!save) {
+        return null;
+    }
+
+    try {
+        return deserializeGame(save);
+    } catch {
+        return null;
+    }
+};
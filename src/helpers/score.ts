@@ -1,27 +1,89 @@
+import { CONFIG } from './config';
+import { getCustomModeId, hasCustomTargets, type CustomMode } from './customMode';
+import { GRADES } from './master';
+import { ScoringType } from './scoring';
 import { msToTime } from './timer';
 import { Menu } from './types';
 
-export const getHighScore = (gameMode: Menu): string => {
-    const score = localStorage.getItem(`highscore-${gameMode}`) || '0';
-    const bestTime = localStorage.getItem(`besttime-${gameMode}`) || '0';
+/**
+ * Gets the part of the storage keys for the records of a mode with a scoring ruleset.
+ * Scores of different rulesets are kept apart, the guideline records keep the keys from before there were rulesets.
+ * Every custom mode has its own records, see getCustomModeId().
+ */
+const getRecordKey = (
+    gameMode: Menu,
+    scoring: ScoringType,
+    customMode: CustomMode | null
+): string => {
+    const mode = customMode ? `${gameMode}-${getCustomModeId(customMode)}` : `${gameMode}`;
+
+    return scoring === ScoringType.Guideline ? mode : `${mode}-${scoring}`;
+};
+
+export const getHighScore = (
+    gameMode: Menu,
+    scoring: ScoringType = CONFIG.SCORING.value,
+    customMode: CustomMode | null = null
+): string => {
+    const key = getRecordKey(gameMode, scoring, customMode);
+    const score = localStorage.getItem(`highscore-${key}`) || '0';
+    const bestTime = localStorage.getItem(`besttime-${key}`) || '0';
+
+    if (gameMode === Menu.Master) {
+        const grade = localStorage.getItem(`bestgrade-${key}`);
+
+        return `${grade === null ? '-' : GRADES[Number(grade)]} / ${msToTime(Number(bestTime))}`;
+    }
 
     return `${score} / ${msToTime(Number(bestTime))}`;
 };
 
+/**
+ * Saves the score of a game if it is a new record.
+ * Returns if a new record was set.
+ */
 export const setHighScore = (
     gameMode: Menu,
     currentScore: number,
     currentTime: number,
-    gameOver: boolean
-): void => {
+    gameOver: boolean,
+    scoring: ScoringType = CONFIG.SCORING.value,
+    grade: number | null = null,
+    customMode: CustomMode | null = null
+): boolean => {
+    const key = getRecordKey(gameMode, scoring, customMode);
+
+    // Master has records based on the grade, a faster time breaks ties.
+    // Topping out still counts, the grade was earned along the way.
+    if (gameMode === Menu.Master && grade !== null) {
+        const bestGrade = Number(localStorage.getItem(`bestgrade-${key}`) ?? '-1');
+        const time = Number(localStorage.getItem(`besttime-${key}`) || '0') || Infinity;
+
+        if (grade > bestGrade || (grade === bestGrade && currentTime < time)) {
+            localStorage.setItem(`bestgrade-${key}`, grade.toString());
+            localStorage.setItem(`highscore-${key}`, currentScore.toString());
+            localStorage.setItem(`besttime-${key}`, currentTime.toString());
+            return true;
+        }
+
+        return false;
+    }
+
     // Those modes have high scores based on time, not score.
-    if (gameMode === Menu.Marathon || gameMode === Menu.Sprint) {
+    // Custom modes too, as long as they have targets to reach.
+    if (
+        gameMode === Menu.Marathon ||
+        gameMode === Menu.Sprint ||
+        gameMode === Menu.Cheese ||
+        gameMode === Menu.Dig ||
+        (customMode !== null && hasCustomTargets(customMode))
+    ) {
         if (gameOver) {
             // We only want records that actually finish.
-            return;
+            return false;
         }
 
-        let time = Number(localStorage.getItem(`besttime-${gameMode}`) || '0');
+        let time = Number(localStorage.getItem(`besttime-${key}`) || '0');
 
         // A time of 0 means no time set, so everything is better than that.
         if (time === 0) {
@@ -29,19 +91,36 @@ export const setHighScore = (
         }
 
         if (currentTime < time) {
-            localStorage.setItem(`highscore-${gameMode}`, currentScore.toString());
-            localStorage.setItem(`besttime-${gameMode}`, currentTime.toString());
+            localStorage.setItem(`highscore-${key}`, currentScore.toString());
+            localStorage.setItem(`besttime-${key}`, currentTime.toString());
+            return true;
+        }
+
+        return false;
+    }
+
+    // Survival is about lasting as long as possible, so the longest time is the record.
+    if (gameMode === Menu.Survival) {
+        const time = Number(localStorage.getItem(`besttime-${key}`) || '0');
+
+        if (currentTime > time) {
+            localStorage.setItem(`highscore-${key}`, currentScore.toString());
+            localStorage.setItem(`besttime-${key}`, currentTime.toString());
+            return true;
         }
 
-        return;
+        return false;
     }
 
     // On the other modes, we can count every record, and sort by score.
     // The time will get saved too, though.
-    const score = localStorage.getItem(`highscore-${gameMode}`) || '0';
+    const score = localStorage.getItem(`highscore-${key}`) || '0';
 
     if (currentScore > Number(score)) {
-        localStorage.setItem(`highscore-${gameMode}`, currentScore.toString());
-        localStorage.setItem(`besttime-${gameMode}`, currentTime.toString());
+        localStorage.setItem(`highscore-${key}`, currentScore.toString());
+        localStorage.setItem(`besttime-${key}`, currentTime.toString());
+        return true;
     }
+
+    return false;
 };
@@ -0,0 +1,203 @@
+import { CONFIG } from './config';
+import { getAttack } from './garbage';
+import { TSpin, type GameEvents } from './types';
+
+/**
+ * The scoring rulesets a player can choose from.
+ * The value gets saved in the config and with the high scores, so new rulesets have to be added at the end.
+ */
+export enum ScoringType {
+    Guideline,
+    NES,
+    TGM,
+    Attack
+}
+
+/**
+ * A line clear (or a T-Spin without lines) that gets scored.
+ */
+export type ScoredClear = GameEvents['lineClear'] & {
+    // The level before the lines were cleared.
+    level: number;
+    // The lines cleared during the ongoing combo, including this clear.
+    comboLines: number;
+};
+
+/**
+ * Everything that makes up a scoring ruleset.
+ */
+export interface ScoringRuleset {
+    name: string;
+    getClearScore: (clear: ScoredClear) => number;
+    // The points for the rows a piece got soft dropped (once it locks) or hard dropped.
+    getDropScore: (rows: number, hardDrop: boolean, level: number) => number;
+}
+
+/**
+ * The points for a back-to-back Tetris perfect clear, times the level.
+ * It replaces the usual back-to-back multiplier.
+ */
+export const B2B_PERFECT_CLEAR_SCORE = 3200;
+
+/**
+ * The points for a line clear in the NES version, by the amount of lines cleared.
+ * There are no pentominoes on the NES, so five lines get the points of a Tetris.
+ */
+export const NES_LINE_CLEAR_SCORE = [0, 40, 100, 300, 1200];
+
+/**
+ * Gets the guideline score depending on the amount of lines cleared and the multiplier (usually the level).
+ * Taken from: https://tetris.wiki/Scoring#Recent_guideline_compatible_games
+ * With pentominoes you can clear five lines at once, which scores like a Tetris.
+ */
+export const getGuidelineScore = (
+    linesCleared: number,
+    multiplier: number,
+    tSpin: TSpin = TSpin.None,
+    fullClear: boolean = false
+): number => {
+    linesCleared = Math.min(linesCleared, 4);
+
+    if (tSpin === TSpin.Mini) {
+        switch (linesCleared) {
+            case 0:
+                return 100 * multiplier;
+            case 1:
+                return 200 * multiplier;
+            case 2:
+                return 400 * multiplier;
+            // A Mini-T-Spin triple is not possible.
+            default:
+                return 0;
+        }
+    }
+
+    if (tSpin === TSpin.Full) {
+        switch (linesCleared) {
+            case 0:
+                return 400 * multiplier;
+            case 1:
+                return 800 * multiplier;
+            case 2:
+                return 1200 * multiplier;
+            case 3:
+                return 1600 * multiplier;
+            default:
+                return 0;
+        }
+    }
+
+    if (fullClear) {
+        switch (linesCleared) {
+            case 1:
+                return 800 * multiplier;
+            case 2:
+                return 1200 * multiplier;
+            case 3:
+                return 1800 * multiplier;
+            case 4:
+                return 2000 * multiplier;
+            default:
+                return 0;
+        }
+    }
+
+    switch (linesCleared) {
+        case 1:
+            return 100 * multiplier;
+        case 2:
+            return 300 * multiplier;
+        case 3:
+            return 500 * multiplier;
+        case 4:
+            return 800 * multiplier;
+        default:
+            return 0;
+    }
+};
+
+/**
+ * The guideline scoring of modern games, with 1.5 times the points for back-to-back clears
+ * and 50 points per combo, both times the level.
+ */
+const getGuidelineClearScore = (clear: ScoredClear): number => {
+    const comboScore = clear.combo > 0 ? 50 * clear.combo * clear.level : 0;
+
+    if (clear.perfectClear && clear.b2b && clear.count >= 4 && clear.tSpin === TSpin.None) {
+        return B2B_PERFECT_CLEAR_SCORE * clear.level + comboScore;
+    }
+
+    const multiplier = clear.level * (clear.b2b ? 1.5 : 1);
+
+    return (
+        getGuidelineScore(clear.count, multiplier, clear.tSpin, clear.perfectClear) + comboScore
+    );
+};
+
+/**
+ * The scoring of the NES version, without any bonus for T-Spins, back-to-back clears or combos.
+ * The NES multiplies with its level + 1, but our levels already start at 1 instead of 0.
+ *
+ * See more information here: https://tetris.wiki/Scoring#Original_Nintendo_scoring_system
+ */
+const getNesClearScore = (clear: ScoredClear): number => {
+    return (
+        NES_LINE_CLEAR_SCORE[Math.min(clear.count, NES_LINE_CLEAR_SCORE.length - 1)] * clear.level
+    );
+};
+
+/**
+ * The scoring of Tetris The Grand Master, where the combo grows by the lines of every clear after a single,
+ * and a perfect clear (Bravo) quadruples the points.
+ * The soft drop bonus gets added on its own instead of being part of the line clear.
+ *
+ * See more information here: https://tetris.wiki/Tetris_The_Grand_Master#Scoring
+ */
+const getTgmClearScore = (clear: ScoredClear): number => {
+    if (clear.count === 0) {
+        return 0;
+    }
+
+    // The combo starts at 1, and every earlier clear of the chain adds 2 * lines - 2.
+    const combo = 1 + 2 * (clear.comboLines - clear.count) - 2 * clear.combo;
+    const bravo = clear.perfectClear ? 4 : 1;
+
+    return Math.ceil((clear.level + clear.count) / 4) * clear.count * combo * bravo;
+};
+
+/**
+ * The scoring rulesets, in the order of the ScoringType enum.
+ */
+export const SCORING_RULESETS: ScoringRuleset[] = [
+    {
+        name: 'GUIDELINE',
+        getClearScore: getGuidelineClearScore,
+        getDropScore: (rows, hardDrop) => (hardDrop ? 2 * rows : rows)
+    },
+    {
+        name: 'NES',
+        getClearScore: getNesClearScore,
+        // There is no hard drop in the NES version.
+        getDropScore: (rows, hardDrop) => (hardDrop ? 0 : rows)
+    },
+    {
+        name: 'TGM',
+        getClearScore: getTgmClearScore,
+        getDropScore: (rows) => rows
+    },
+    {
+        // The score is the amount of garbage lines the clears would send in versus.
+        name: 'ATTACK',
+        getClearScore: getAttack,
+        getDropScore: () => 0
+    }
+];
+
+/**
+ * Gets a scoring ruleset, the guideline one if it does not exist.
+ */
+export const getScoringRuleset = (
+    scoring: ScoringType = CONFIG.SCORING.value
+): ScoringRuleset => {
+    return SCORING_RULESETS[scoring] ?? SCORING_RULESETS[ScoringType.Guideline];
+};
@@ -32,6 +32,8 @@ export const incrementLifetimeStats = (game: Game): void => {
     increaseStats('DOUBLE_LINES', game.lineCountList[1]);
     increaseStats('TRIPLE_LINES', game.lineCountList[2]);
     increaseStats('TETRIS_LINES', game.lineCountList[3]);
+    increaseStats('GARBAGE_LINES', game.garbageCleared);
     increaseStats('T_SPIN_MINI', game.tSpinCountList[0]);
     increaseStats('T_SPIN_FULL', game.tSpinCountList[1]);
+    increaseStats('FINESSE_FAULTS', game.finesseFaults);
 };
@@ -1,9 +1,66 @@
+import { GARBAGE_BLOCK } from './board';
 import type { Game } from './game';
+import { RISE_WARNING_TICKS } from './garbage';
+import { CUSTOM_COLOR_START, getPieceColor, type PieceSetDefinition } from './pieceSets';
+
+/**
+ * Gets you the CSS style class of a piece color.
+ * The usual seven pieces have their own classes, every other color gets a class from applyPieceColors().
+ */
+export const getPieceClass = (color: number): string => {
+    const classes = ['empty', 'i', 'j', 'l', 'o', 's', 'z', 't'];
+
+    return color >= CUSTOM_COLOR_START ? `custom-${color}` : classes[color];
+};
+
+/**
+ * Adds the CSS classes for the colors of a piece set to the page, replacing the ones of the last set.
+ * The shadow and the hint keep their own background, only the outline takes the color of the piece.
+ */
+export const applyPieceColors = (set: PieceSetDefinition): void => {
+    if (typeof document === 'undefined') {
+        return;
+    }
+
+    let style = document.getElementById('piece-colors');
+    if (!style) {
+        style = document.createElement('style');
+        style.id = 'piece-colors';
+        document.head.appendChild(style);
+    }
+
+    let css = '';
+    for (let i = 0; i < set.pieces.length; i++) {
+        const color = set.pieces[i].color;
+
+        if (typeof color === 'string') {
+            const name = getPieceClass(getPieceColor(set, i));
+            css += `.${name} { outline-color: ${color}; }\n`;
+            css += `.${name}:not(.transparent):not(.hint) { background-color: ${color}; }\n`;
+        }
+    }
+
+    style.textContent = css;
+};
+
+/**
+ * The color of the piece the hint is meant for.
+ */
+const getHintColor = (game: Game): number => {
+    const piece = game.pieceSet.find((p) => p.name === game.hint?.piece);
+
+    return piece ? piece.color : 0;
+};
 
 /**
  * Gets you the CSS style class of a block on the playing field.
  */
 export const getColorClass = (game: Game, block: number, i: number, j: number): string => {
+    // Pieces outside of the usual seven.
+    if (block >= CUSTOM_COLOR_START) {
+        return `${getPieceClass(block)} block`;
+    }
+
     switch (block) {
         case 1:
             return 'i block';
@@ -20,17 +77,27 @@ export const getColorClass = (game: Game, block: number, i: number, j: number):
         case 7:
             return 't block';
         case 8:
-            // Used for garbage blocks and the greyed out hold piece.
+            // Used for the greyed out board and hold piece.
             return 'greyed-out block';
         case 9:
             // Used for full lines.
             return 'white block';
+        case GARBAGE_BLOCK:
+            return 'garbage block';
         default:
             // If the piece is not filled in, we check if it is occupied by a "shadow" piece.
             // If that is the case, we render a slightly transparent color of the current piece.
             for (let k = 0; k < game.shadowPiece.length; k++) {
                 if (game.shadowPiece[k][0] === i && game.shadowPiece[k][1] === j) {
-                    return `${game.currentPiece.name.toLowerCase()} block transparent`;
+                    return `${getPieceClass(game.currentPiece.color)} block transparent`;
+                }
+            }
+            // Then the hint overlay, in the color of the piece it is meant for.
+            if (game.hint) {
+                for (let k = 0; k < game.hint.coordinates.length; k++) {
+                    if (game.hint.coordinates[k][0] === i && game.hint.coordinates[k][1] === j) {
+                        return `${getPieceClass(getHintColor(game))} block hint`;
+                    }
                 }
             }
             // And if not, just an empty block.
@@ -38,6 +105,14 @@ export const getColorClass = (game: Game, block: number, i: number, j: number):
     }
 };
 
+/**
+ * The size of a block on the board in pixels.
+ * Bigger boards get smaller blocks, so that they still fit into the same space as the usual board.
+ */
+export const getBlockSize = (game: Game): number => {
+    return Math.min(30, Math.floor(660 / game.board.height), Math.floor(600 / game.board.width));
+};
+
 /**
  * Gets you the CSS style class of the held piece preview,
  * which is greyed out if you cannot swap the held piece.
@@ -83,13 +158,17 @@ export const keyToDisplay = (key: string): string => {
  * with a special glow for being in danger, paused, both, or having a high combo.
  */
 export const getGlow = (game: Game): string => {
+    // Rising garbage is about to push the stack up by a row, so the danger starts one row earlier.
+    const dangerRows =
+        game.riseTicksRemaining !== null && game.riseTicksRemaining <= RISE_WARNING_TICKS ? 7 : 6;
+
     if (game.finished) {
         return 'green-glow ';
     }
-    if (game.board.firstRowsNotEmpty(game.currentPiece, 6) && game.paused) {
+    if (game.board.firstRowsNotEmpty(game.currentPiece, dangerRows) && game.paused) {
         return 'purple-glow ';
     }
-    if (game.board.firstRowsNotEmpty(game.currentPiece, 6) || game.over) {
+    if (game.board.firstRowsNotEmpty(game.currentPiece, dangerRows) || game.over) {
         return 'red-glow ';
     }
     if (game.paused) {
@@ -2,13 +2,17 @@ export class Timer {
     initialTime: number;
     currentTime: number;
 
-    constructor() {
-        this.initialTime = Date.now();
-        this.currentTime = 0;
+    // A timer can start with some time already on it, for continued games.
+    constructor(currentTime: number = 0) {
+        this.initialTime = Date.now() - currentTime;
+        this.currentTime = currentTime;
     }
 
-    update(): void {
-        this.currentTime = Date.now() - this.initialTime;
+    /**
+     * Updates the timer, either with the time passed since it started or with a given time.
+     */
+    update(currentTime: number = Date.now() - this.initialTime): void {
+        this.currentTime = currentTime;
     }
 
     toReadableTime(): string {
@@ -33,3 +37,10 @@ export const msToTime = (s: number): string => {
 
     return pad(mins) + ':' + pad(secs) + '.' + pad(ms, 3);
 };
+
+/**
+ * Converts an amount of ticks (1/60th of a second) to milliseconds.
+ */
+export const ticksToMs = (ticks: number): number => {
+    return Math.round((ticks * 1000) / 60);
+};
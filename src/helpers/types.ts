@@ -9,7 +9,17 @@ export enum Menu {
     Endless,
     Marathon,
     Sprint,
-    Time
+    Time,
+    Replay,
+    Versus,
+    Master,
+    Cheese,
+    Survival,
+    Dig,
+    Custom,
+    ModeBuilder,
+    Puzzle,
+    Editor
 }
 
 /**
@@ -32,6 +42,24 @@ export enum Move {
     Right
 }
 
+/**
+ * The actions a player can take in game.
+ * These get recorded for replays, so new actions have to be added at the end.
+ */
+export enum Action {
+    MoveLeft,
+    MoveRight,
+    SoftDrop,
+    ReleaseSoftDrop,
+    HardDrop,
+    RotateCW,
+    RotateCCW,
+    Rotate180,
+    Hold,
+    Pause,
+    InsertGarbage
+}
+
 /**
  * The Direction of a move in game.
  */
@@ -43,13 +71,59 @@ export enum Direction {
 }
 
 /**
- * A repeated keypress, used to mimic DAS.
- * Only in use for ArrowLeft, ArrowRight and ArrowDown.
+ * An action that is being held down, used for the DAS.
+ * Only in use for moving left, right and soft dropping.
  */
-export interface KeyEvents {
-    [id: string]: NodeJS.Timeout | null;
+export interface HeldAction {
+    action: Action;
+    // The milliseconds the action has been charging for, since the last time it was performed.
+    charge: number;
+    // If the initial DAS delay is over and the action repeats with the ARR.
+    repeating: boolean;
 }
 
 export interface SoundFiles {
     [key: string]: HTMLAudioElement;
 }
+
+/**
+ * The placement the hint overlay suggests for the current piece.
+ */
+export interface Hint {
+    piece: string;
+    coordinates: number[][];
+    // If the suggested piece comes out of hold, instead of being the current piece.
+    hold: boolean;
+}
+
+/**
+ * The events a game emits, with the data that gets passed to the listeners.
+ */
+export interface GameEvents {
+    start: Record<string, never>;
+    pause: { paused: boolean };
+    // Moving left, right or soft dropping.
+    move: { action: Action };
+    rotate: { action: Action };
+    hold: { piece: string };
+    garbage: { lines: number };
+    // Emitted as soon as a piece locks, lines are the amount of lines it is going to clear.
+    pieceLocked: { piece: string; lines: number; hardDrop: boolean };
+    // Emitted for every line clear once the lines disappear, and also for T-Spins without lines.
+    lineClear: {
+        count: number;
+        tSpin: TSpin;
+        // If the clear continues a back-to-back chain.
+        b2b: boolean;
+        // The amount of consecutive line clears before this one, -1 if the clear did not clear lines.
+        combo: number;
+        perfectClear: boolean;
+    };
+    levelUp: { level: number };
+    // Emitted when a piece locks with more inputs than the minimum for its placement.
+    finesseFault: { piece: string; inputs: number; minimal: number };
+    topOut: Record<string, never>;
+    // Emitted when the game is lost without topping out, like when a limit of a custom mode runs out.
+    failed: Record<string, never>;
+    finished: Record<string, never>;
+}
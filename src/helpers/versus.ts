@@ -0,0 +1,89 @@
+import { Game } from './game';
+import { getAttack } from './garbage';
+import { generateSeed } from './rng';
+import { Action, Menu } from './types';
+
+/**
+ * A match between two players, each with their own game.
+ * Line clears send garbage to the other player, the last one standing wins.
+ */
+export class Versus {
+    games: Game[];
+    // The index of the winning player, null while the match is still going.
+    winner: number | null;
+    // The garbage lines each player has sent to the other one, after cancelling.
+    linesSent: number[];
+
+    constructor(seed: number = generateSeed(), headless: boolean = false) {
+        // Both players get the same seed, so that they also get the same pieces.
+        this.games = [
+            new Game(Menu.Versus, null, null, 1, seed, headless),
+            new Game(Menu.Versus, null, null, 1, seed, headless)
+        ];
+        this.winner = null;
+        this.linesSent = [0, 0];
+    }
+
+    /**
+     * Starts both games, and connects them so that line clears send garbage to the opponent.
+     * This is not done in the constructor, so that the listeners use the reactive version of the match.
+     */
+    start(): void {
+        for (let i = 0; i < this.games.length; i++) {
+            const game = this.games[i];
+            const opponent = this.games[1 - i];
+
+            game.events.on('lineClear', (e) => {
+                // An attack first cancels the garbage that is coming in, the rest goes to the opponent.
+                const lines = game.cancelGarbage(getAttack(e));
+
+                if (lines > 0) {
+                    opponent.queueGarbage(lines);
+                    this.linesSent[i] += lines;
+                }
+            });
+
+            game.events.on('topOut', () => this.endMatch(1 - i));
+
+            game.start();
+        }
+    }
+
+    /**
+     * Advances both games by a single tick.
+     */
+    advanceTick(): void {
+        for (let i = 0; i < this.games.length; i++) {
+            this.games[i].advanceTick();
+        }
+    }
+
+    /**
+     * Pauses or unpauses both games together.
+     */
+    togglePause(): void {
+        for (let i = 0; i < this.games.length; i++) {
+            this.games[i].performAction(Action.Pause);
+        }
+    }
+
+    isOver(): boolean {
+        return this.winner !== null;
+    }
+
+    /**
+     * Ends the match, the winner finishes their game.
+     */
+    endMatch(winner: number): void {
+        if (this.winner !== null) {
+            return;
+        }
+
+        this.winner = winner;
+
+        const game = this.games[winner];
+        game.paused = false;
+        game.finished = true;
+        game.events.emit('finished', {});
+    }
+}
@@ -8,6 +8,10 @@ let instance: VueApp<Element> | null = null;
 function render(props: any = {}) {
     const { container } = props;
     instance = createApp(App);
+    // The host can listen to the events of the games, for example for analytics.
+    if (props.onGameEvent) {
+        instance.provide('onGameEvent', props.onGameEvent);
+    }
     instance.mount(container ? container.querySelector('#app') : '#app');
 }
 
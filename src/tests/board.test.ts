@@ -1,4 +1,4 @@
-import { Board } from '@/helpers/board';
+import { Board, GARBAGE_BLOCK } from '@/helpers/board';
 import { allPieces } from '@/helpers/pieceData';
 import { expect, test } from 'vitest';
 
@@ -9,6 +9,24 @@ test('New Board', () => {
     expect(newBoard.GameBoard[0].length).toBe(10);
 });
 
+test('Custom Board Size', () => {
+    const newBoard = new Board(null, 4, 30);
+
+    expect(newBoard.GameBoard.length).toBe(30);
+    expect(newBoard.GameBoard[0].length).toBe(4);
+    expect(newBoard.width).toBe(4);
+    expect(newBoard.height).toBe(30);
+
+    newBoard.GameBoard[29] = [1, 2, 3, 4];
+    newBoard.deleteLine(29);
+    expect(newBoard.GameBoard[0]).toEqual([0, 0, 0, 0]);
+
+    newBoard.insertGarbageLines(1, null);
+    expect(newBoard.GameBoard[29].filter((b) => b === GARBAGE_BLOCK).length).toBe(3);
+    expect(newBoard.GameBoard[29].length).toBe(4);
+    expect(newBoard.getGarbageLineCount()).toBe(1);
+});
+
 test('Full Lines', () => {
     const newBoard = new Board();
 
@@ -45,9 +63,9 @@ test('Insert Garbage Lines', () => {
     const result19 = newBoard.GameBoard[19].reduce((a, b) => a + b);
 
     expect(currentPiece.offset).toEqual([0, 5]);
-    expect(result21).toEqual(72);
-    expect(result20).toEqual(72);
-    expect(result19).toEqual(72);
+    expect(result21).toEqual(9 * GARBAGE_BLOCK);
+    expect(result20).toEqual(9 * GARBAGE_BLOCK);
+    expect(result19).toEqual(9 * GARBAGE_BLOCK);
 });
 
 test('First Rows Empty', () => {
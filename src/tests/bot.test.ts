@@ -0,0 +1,144 @@
+import { Bot, BotDifficulty } from '@/helpers/bot';
+import {
+    countTSlots,
+    evaluateBoard,
+    findBestMove,
+    findPlacements,
+    type BotMove,
+    type BotRequest
+} from '@/helpers/botSearch';
+import { Board } from '@/helpers/board';
+import { Game } from '@/helpers/game';
+import { getHint, requestHint } from '@/helpers/hint';
+import { PIECE_SETS } from '@/helpers/pieceSets';
+import { RotationSystemType } from '@/helpers/rotation';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test, vi } from 'vitest';
+
+test('Find Placements', () => {
+    const board = new Board().GameBoard;
+
+    // The O piece cannot rotate, so it can only be dropped in 9 different columns.
+    expect(findPlacements(board, 'O').length).toBe(9);
+    // The T piece is 3 wide in two rotations and 2 wide in the other two.
+    expect(findPlacements(board, 'T').length).toBe(8 + 9 + 8 + 9);
+
+    // Every placement ends with a hard drop.
+    const placements = findPlacements(board, 'I');
+    for (let i = 0; i < placements.length; i++) {
+        expect(placements[i].actions[placements[i].actions.length - 1]).toBe(Action.HardDrop);
+    }
+
+    // If the piece cannot spawn, there are no placements.
+    board[1] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 8];
+    expect(findPlacements(board, 'T').length).toBe(0);
+});
+
+test('Find T-Spin', () => {
+    const board = new Board().GameBoard;
+
+    // A T-Spin Double slot, that can only be reached by spinning in.
+    board[19] = [8, 8, 8, 0, 0, 0, 8, 8, 8, 8];
+    board[20] = [8, 8, 8, 8, 0, 8, 8, 8, 8, 8];
+    board[21] = [8, 8, 8, 8, 0, 8, 8, 8, 8, 8];
+    board[18] = [0, 0, 0, 8, 0, 0, 0, 0, 0, 0];
+
+    expect(countTSlots(board)).toBe(1);
+
+    const tSpins = findPlacements(board, 'T').filter((p) => p.tSpin);
+    expect(tSpins.length).toBeGreaterThan(0);
+
+    const move = findBestMove({
+        board: board,
+        current: { name: 'T', rotation: 0, offset: [0, 3] },
+        hold: null,
+        next: [],
+        canHold: false,
+        mistake: null,
+        lookahead: false,
+        rotationSystem: RotationSystemType.SRS,
+        pieceSet: PIECE_SETS[0]
+    });
+
+    expect(move).not.toBe(null);
+    expect(move!.actions).toContain(Action.SoftDrop);
+});
+
+test('Evaluate Board', () => {
+    const flat = new Board().GameBoard;
+    flat[21] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+
+    const holes = new Board().GameBoard;
+    holes[20] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+    holes[21] = [8, 0, 8, 0, 8, 0, 8, 0, 8, 0];
+
+    expect(evaluateBoard(flat, 0, false)).toBeGreaterThan(evaluateBoard(holes, 0, false));
+});
+
+test('Bot Plays', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 777, true);
+    const bot = new Bot(game, BotDifficulty.Expert, 1, false);
+    game.start();
+
+    // Around 100 pieces.
+    for (let i = 0; i < 1500 && !game.over; i++) {
+        game.advanceTick();
+        bot.update();
+    }
+
+    expect(game.over).toBe(false);
+    expect(game.lineCount).toBeGreaterThan(10);
+});
+
+test('Get Hint', () => {
+    const game = new Game(Menu.Versus, null, null, 1, 4321, true);
+
+    // Headless games never show the hint on their own.
+    expect(game.showHint).toBe(false);
+    expect(game.hint).toBe(null);
+
+    const hint = getHint(game);
+
+    // On an empty board, the best placement is somewhere flat on the floor.
+    expect(hint).not.toBe(null);
+    expect(hint!.coordinates.length).toBe(4);
+    expect(Math.max(...hint!.coordinates.map((c) => c[0]))).toBe(21);
+});
+
+test('Hint In The Background', () => {
+    // Stands in for the worker of the bot, it answers whenever the test says so.
+    const requests: BotRequest[] = [];
+    let answer: (move: BotMove | null) => void = () => {};
+    class TestWorker {
+        onmessage: ((e: { data: BotMove | null }) => void) | null = null;
+
+        postMessage(request: BotRequest): void {
+            requests.push(request);
+            answer = (move) => this.onmessage!({ data: move });
+        }
+    }
+    vi.stubGlobal('Worker', TestWorker);
+
+    const game = new Game(Menu.Versus, null, null, 1, 4321, true);
+    game.showHint = true;
+
+    game.updateHint();
+    expect(requests.length).toBe(1);
+    expect(game.hint).toBe(null);
+
+    // The piece got held before the answer came in, so the answer belongs to a piece that is gone.
+    game.toggleHoldPiece();
+    game.updateHint();
+    answer(findBestMove(requests[0]));
+    expect(game.hint).toBe(null);
+
+    answer(findBestMove(requests[1]));
+    expect(game.hint?.piece).toBe(game.currentPiece.name);
+
+    // Without web workers, the hint is there right away.
+    game.hint = null;
+    requestHint(game, false);
+    expect(game.hint).toEqual(getHint(game));
+
+    vi.unstubAllGlobals();
+});
@@ -0,0 +1,187 @@
+import { GARBAGE_BLOCK } from '@/helpers/board';
+import {
+    createCustomMode,
+    exportCustomMode,
+    getCustomModeId,
+    getCustomModeResult,
+    loadCustomModes,
+    parseCustomMode,
+    saveCustomModes,
+    type CustomMode
+} from '@/helpers/customMode';
+import { Game } from '@/helpers/game';
+import { getBestReplayName } from '@/helpers/replay';
+import { getHighScore, setHighScore } from '@/helpers/score';
+import { ScoringType } from '@/helpers/scoring';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const customMode = (rules: Partial<CustomMode>): CustomMode => {
+    return { ...createCustomMode(), ...rules };
+};
+
+const progress = (lines = 0, score = 0, garbage = 0, time = 0, pieces = 0) => {
+    return { lines, score, garbage, time, pieces };
+};
+
+test('Custom Mode Result', () => {
+    // Without goals the game just goes on.
+    expect(getCustomModeResult(createCustomMode(), progress(100, 100000))).toBe(null);
+
+    // Every target has to be reached.
+    const targets = customMode({ lines: 10, score: 1000 });
+    expect(getCustomModeResult(targets, progress(10, 500))).toBe(null);
+    expect(getCustomModeResult(targets, progress(10, 1000))).toBe(true);
+
+    // Running out of time or pieces before that is a game over.
+    const limited = customMode({ lines: 10, time: 60000, pieces: 25 });
+    expect(getCustomModeResult(limited, progress(5, 0, 0, 60000))).toBe(false);
+    expect(getCustomModeResult(limited, progress(5, 0, 0, 0, 25))).toBe(false);
+    expect(getCustomModeResult(limited, progress(10, 0, 0, 60000, 25))).toBe(true);
+
+    // Without targets, reaching a limit finishes the game.
+    expect(getCustomModeResult(customMode({ pieces: 25 }), progress(0, 0, 0, 0, 25))).toBe(true);
+});
+
+test('Share Custom Mode', () => {
+    const mode = customMode({
+        name: 'TSD PRACTICE',
+        lines: 20,
+        time: 120000,
+        gravity: 0.5,
+        hold: false,
+        board: ['GGGG.GGGGG']
+    });
+    const shared = exportCustomMode(mode);
+
+    // Only what is not the default gets shared.
+    expect(JSON.parse(shared)).toEqual({
+        name: 'TSD PRACTICE',
+        lines: 20,
+        time: 120000,
+        gravity: 0.5,
+        hold: false,
+        board: ['GGGG.GGGGG']
+    });
+    expect(parseCustomMode(shared)).toEqual(mode);
+
+    // The name does not change the rules, the records stay with the mode.
+    expect(getCustomModeId({ ...mode, name: 'OTHER' })).toBe(getCustomModeId(mode));
+    expect(getCustomModeId({ ...mode, lines: 40 })).not.toBe(getCustomModeId(mode));
+
+    expect(() => parseCustomMode('nope')).toThrow('NOT A CUSTOM MODE');
+    expect(() => parseCustomMode('{"name":""}')).toThrow('THE MODE NEEDS A NAME');
+    expect(() => parseCustomMode('{"name":"A","lines":0}')).toThrow('THE LINES GOAL IS INVALID');
+    expect(() => parseCustomMode('{"name":"A","startLevel":21}')).toThrow(
+        'THE START LEVEL IS INVALID'
+    );
+    expect(() => parseCustomMode('{"name":"A","gravity":30}')).toThrow('THE GRAVITY IS INVALID');
+    expect(() => parseCustomMode('{"name":"A","board":["..X"]}')).toThrow(
+        'ROW 1 OF THE BOARD IS INVALID'
+    );
+});
+
+test('Save Custom Modes', () => {
+    const modes = [customMode({ name: 'A', lines: 10 }), customMode({ name: 'B', score: 5000 })];
+    saveCustomModes(modes);
+
+    expect(loadCustomModes()).toEqual(modes);
+
+    // Broken modes get left out.
+    localStorage.setItem('custom-modes', JSON.stringify(['{"name":"A"}', 'broken']));
+    expect(loadCustomModes().length).toBe(1);
+
+    localStorage.clear();
+});
+
+test('Custom Mode Game', () => {
+    const mode = customMode({
+        pieces: 2,
+        startLevel: 5,
+        gravity: 1,
+        hold: false,
+        board: ['GGGG.GGGG', 'IIII.IIIIIII']
+    });
+    const game = new Game(Menu.Custom, null, null, 1, 1234, true, 10, 22, mode);
+    const board = game.board.GameBoard;
+
+    expect(game.level).toBe(5);
+    expect(game.getGravity()).toBe(1);
+    // The rows get filled up and cut off to the width of the board.
+    const G = GARBAGE_BLOCK;
+    expect(board[20]).toEqual([G, G, G, G, 0, G, G, G, G, 0]);
+    expect(board[21]).toEqual([1, 1, 1, 1, 0, 1, 1, 1, 1, 1]);
+
+    expect(game.toggleHoldPiece()).toBe(false);
+    expect(game.holdPiece).toBe(null);
+
+    // Running out of pieces without targets finishes the game.
+    game.step([Action.HardDrop]);
+    expect(game.finished).toBe(false);
+    game.step([Action.HardDrop]);
+    game.step();
+    expect(game.piecesPlaced).toBe(2);
+    expect(game.finished).toBe(true);
+});
+
+test('Custom Mode Hold', () => {
+    const mode = customMode({ lines: 10, pieces: 3, hold: true });
+    const game = new Game(Menu.Custom, null, null, 1, 1234, true, 10, 22, mode);
+
+    const events: string[] = [];
+    game.events.onAny((event) => events.push(event));
+
+    // Holding does not place a piece, so the limit allows exactly three of them.
+    game.step([Action.Hold]);
+    game.step([Action.HardDrop]);
+    game.step([Action.Hold]);
+    game.step([Action.HardDrop]);
+    expect(game.piecesPlaced).toBe(2);
+    expect(game.over).toBe(false);
+
+    game.step([Action.HardDrop]);
+    game.step();
+    expect(game.piecesPlaced).toBe(3);
+    expect(game.over).toBe(true);
+    expect(events[events.length - 1]).toBe('failed');
+});
+
+test('Custom Mode Garbage', () => {
+    const mode = customMode({ garbage: 3, time: 1000, board: ['GGGG.GGGGG'] });
+    const game = new Game(Menu.Custom, null, null, 1, 1234, true, 10, 22, mode);
+
+    // The garbage of the starting board gets kept up.
+    expect(game.board.getGarbageLineCount()).toBe(1);
+    expect(game.garbageGoal).toBe(3);
+
+    let failed = false;
+    game.events.on('failed', () => (failed = true));
+
+    // Running out of time before the garbage is cleared is a game over.
+    for (let i = 0; i < 61 && !game.over; i++) {
+        game.step();
+    }
+    expect(game.over).toBe(true);
+    expect(game.finished).toBe(false);
+    expect(failed).toBe(true);
+});
+
+test('Custom Mode High Scores', () => {
+    const race = customMode({ name: 'RACE', lines: 10 });
+    const other = customMode({ name: 'OTHER', lines: 20 });
+
+    // Modes with targets have records based on time.
+    expect(setHighScore(Menu.Custom, 100, 50000, false, ScoringType.Guideline, null, race)).toBe(
+        true
+    );
+    expect(setHighScore(Menu.Custom, 900, 60000, false, ScoringType.Guideline, null, race)).toBe(
+        false
+    );
+    expect(getHighScore(Menu.Custom, ScoringType.Guideline, race)).toBe('100 / 00:50.000');
+
+    // And every mode has its own.
+    expect(getHighScore(Menu.Custom, ScoringType.Guideline, other)).toBe('0 / 00:00.000');
+    expect(getBestReplayName(Menu.Custom, race)).not.toBe(getBestReplayName(Menu.Custom, other));
+
+    localStorage.clear();
+});
@@ -0,0 +1,106 @@
+import { GARBAGE_BLOCK } from '@/helpers/board';
+import {
+    createBoardSetup,
+    getGameSetup,
+    getSetupRows,
+    loadBoardSetup,
+    parseBoardSetup,
+    saveBoardSetup,
+    type BoardSetup
+} from '@/helpers/editor';
+import { Game } from '@/helpers/game';
+import { createReplay, exportReplay, importReplay } from '@/helpers/replay';
+import { Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const SETUP: BoardSetup = {
+    board: ['T.........', 'TT.....GGG', 'T....GGGGG'],
+    current: 'L',
+    hold: 'I',
+    queue: 'OSZ'
+};
+
+const newGame = (setup: BoardSetup): Game => {
+    return new Game(Menu.Editor, null, null, 1, 1234, true, 10, 22, null, null, setup);
+};
+
+test('Starting From A Setup', () => {
+    const game = newGame(SETUP);
+
+    expect(game.board.GameBoard[19]).toEqual([7, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(game.board.GameBoard[21][9]).toBe(GARBAGE_BLOCK);
+    expect(game.currentPiece.name).toBe('L');
+    expect(game.holdPiece?.name).toBe('I');
+    expect(game.nextPieces.slice(0, 3).map((p) => p.name)).toEqual(['O', 'S', 'Z']);
+    // The randomizer takes over after the queue of the setup.
+    expect(game.nextPieces.length).toBeGreaterThan(3);
+
+    expect(game.toggleHoldPiece()).toBe(true);
+    expect(game.currentPiece.name).toBe('I');
+    expect(game.holdPiece?.name).toBe('L');
+
+    // Starting over gets you the exact same state.
+    const again = newGame(SETUP);
+    expect(again.board.GameBoard).toEqual(newGame(SETUP).board.GameBoard);
+    expect(again.currentPiece.name).toBe('L');
+});
+
+test('Setup Rows', () => {
+    const game = newGame(SETUP);
+
+    // The current piece spawns into the board, so it gets taken out first.
+    for (const [i, j] of game.currentPiece.getCoordinates()) {
+        game.board.GameBoard[i][j] = 0;
+    }
+
+    expect(getSetupRows(game.board.GameBoard)).toEqual(SETUP.board);
+    expect(getSetupRows(newGame(createBoardSetup()).board.GameBoard.slice(10))).toEqual([]);
+    // Blocks without a letter become garbage.
+    expect(getSetupRows([[0, 8, 9, 1]])).toEqual(['.GGI']);
+});
+
+test('Game Setups', () => {
+    const game = newGame(SETUP);
+    const setup = getGameSetup(game);
+
+    // The current piece is not part of the board, and the queue goes on with the randomizer.
+    expect(setup.board).toEqual(SETUP.board);
+    expect(setup.current).toBe('L');
+    expect(setup.hold).toBe('I');
+    expect(setup.queue.startsWith('OSZ')).toBe(true);
+    expect(newGame(setup).board.GameBoard).toEqual(game.board.GameBoard);
+});
+
+test('Parsing Setups', () => {
+    expect(parseBoardSetup(JSON.stringify(SETUP))).toEqual(SETUP);
+
+    expect(() => parseBoardSetup('not json')).toThrowError('NOT A BOARD SETUP');
+    expect(() => parseBoardSetup(JSON.stringify({ ...SETUP, board: ['GGX'] }))).toThrowError(
+        'THE BOARD IS INVALID'
+    );
+    expect(() => parseBoardSetup(JSON.stringify({ ...SETUP, current: 'IO' }))).toThrowError(
+        'THE PIECES ARE INVALID'
+    );
+    expect(() => parseBoardSetup(JSON.stringify({ ...SETUP, hold: 'X' }))).toThrowError(
+        'THE PIECES ARE INVALID'
+    );
+    expect(() => parseBoardSetup(JSON.stringify({ ...SETUP, queue: 'IOX' }))).toThrowError(
+        'THE PIECES ARE INVALID'
+    );
+
+    localStorage.removeItem('board-setup');
+    expect(loadBoardSetup()).toEqual(createBoardSetup());
+
+    saveBoardSetup(SETUP);
+    expect(loadBoardSetup()).toEqual(SETUP);
+});
+
+test('Setup Replays', () => {
+    const replay = createReplay(newGame(SETUP));
+
+    expect(replay.setup).toEqual(SETUP);
+    expect(importReplay(exportReplay(replay)).setup).toEqual(SETUP);
+    expect(() =>
+        importReplay(exportReplay({ ...replay, setup: { ...SETUP, board: [1] } as never }))
+    ).toThrowError('REPLAY FILE IS DAMAGED');
+});
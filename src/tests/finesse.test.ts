@@ -0,0 +1,84 @@
+import { getMinimalInputs } from '@/helpers/finesse';
+import { Game } from '@/helpers/game';
+import { allPieces } from '@/helpers/pieceData';
+import type { Piece } from '@/helpers/pieces';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const getPlacedPiece = (name: string, rotation: number, column: number): Piece => {
+    const piece = allPieces.find((p) => p.name === name)!.clone();
+    piece.currentRotation = rotation;
+    piece.offset = [18, column];
+
+    return piece;
+};
+
+test('Minimal Inputs', () => {
+    // Right at the spawn, no inputs are needed at all.
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 3))).toBe(0);
+
+    // A single tap, or holding the key until the wall.
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 2))).toBe(1);
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 0))).toBe(1);
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 7))).toBe(1);
+
+    // Either two taps, or holding into the wall and tapping back.
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 1))).toBe(2);
+    expect(getMinimalInputs(getPlacedPiece('T', 0, 6))).toBe(2);
+
+    // Rotating and moving both count.
+    expect(getMinimalInputs(getPlacedPiece('T', 2, 3))).toBe(1);
+    expect(getMinimalInputs(getPlacedPiece('T', 1, -1))).toBe(2);
+
+    // A vertical I in the fifth column is just a CCW rotation, even if it is in the CW rotation state.
+    expect(getMinimalInputs(getPlacedPiece('I', 1, 2))).toBe(1);
+    expect(getMinimalInputs(getPlacedPiece('I', 3, 3))).toBe(1);
+
+    // The O cannot rotate at all.
+    expect(getMinimalInputs(getPlacedPiece('O', 0, 0))).not.toBeNull();
+});
+
+test('Finesse Faults', () => {
+    const game = new Game(Menu.Sprint, 40, null, 1, 1234, true);
+    game.start();
+
+    const faults: number[] = [];
+    game.events.on('finesseFault', (e) => faults.push(e.inputs - e.minimal));
+
+    // Dropping right away is perfect finesse.
+    game.pressAction(Action.HardDrop);
+    expect(game.finesseFaults).toBe(0);
+
+    // Moving left and right again wastes two inputs.
+    game.pressAction(Action.MoveLeft);
+    game.releaseAction(Action.MoveLeft);
+    game.pressAction(Action.MoveRight);
+    game.releaseAction(Action.MoveRight);
+    game.pressAction(Action.HardDrop);
+    expect(game.finesseFaults).toBe(1);
+    expect(faults).toEqual([2]);
+
+    // Holding down a movement key only counts once.
+    game.pressAction(Action.MoveLeft);
+    for (let i = 0; i < 30; i++) {
+        game.step();
+    }
+    game.releaseAction(Action.MoveLeft);
+    game.pressAction(Action.HardDrop);
+    expect(game.finesseFaults).toBe(1);
+
+    // Soft dropped pieces are not checked, they could have been tucked in somewhere.
+    game.pressAction(Action.SoftDrop);
+    game.releaseAction(Action.SoftDrop);
+    game.pressAction(Action.RotateCW);
+    game.pressAction(Action.RotateCCW);
+    game.pressAction(Action.HardDrop);
+    expect(game.finesseFaults).toBe(1);
+
+    // Inputs before holding do not count either.
+    game.pressAction(Action.RotateCW);
+    game.pressAction(Action.RotateCCW);
+    game.pressAction(Action.Hold);
+    game.pressAction(Action.HardDrop);
+    expect(game.finesseFaults).toBe(1);
+});
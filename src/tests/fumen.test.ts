@@ -0,0 +1,131 @@
+import type { BoardSetup } from '@/helpers/editor';
+import {
+    decodeFumen,
+    encodeFumen,
+    exportBoardSetup,
+    importBoardSetup,
+    type FumenPage
+} from '@/helpers/fumen';
+import { expect, test } from 'vitest';
+
+test('Encoding Boards', () => {
+    expect(encodeFumen([{ board: [], piece: null, comment: '' }])).toBe('v115@vhAAgH');
+
+    const board = ['GGGGGG....', 'GGGGGG....', 'GGGGGG....', 'GGGGGG....'];
+    expect(encodeFumen([{ board: board, piece: null, comment: '' }])).toBe(
+        'v115@9gF8DeF8DeF8DeF8NeAgH'
+    );
+
+    expect(decodeFumen('v115@9gF8DeF8DeF8DeF8NeAgH')).toEqual([
+        { board: board, piece: null, comment: '' }
+    ]);
+    // Links to fumen work as well.
+    expect(decodeFumen('https://fumen.zui.jp/?v115@vhAAgH')[0].board).toEqual([]);
+});
+
+test('Round Trip', () => {
+    const pages: FumenPage[] = [
+        {
+            board: ['IIII......', 'JLOSZT.GGG', 'GGGG.GGGGG'],
+            piece: { name: 'T', rotation: 'spawn', x: 4, y: 3 },
+            comment: 'TSD SETUP'
+        },
+        {
+            board: ['....T.....', 'IIIITTT...', 'JLOSZT.GGG', 'GGGG.GGGGG'],
+            piece: { name: 'O', rotation: 'reverse', x: 9, y: 4 },
+            comment: 'TSD SETUP'
+        },
+        {
+            board: ['T.........'],
+            piece: { name: 'I', rotation: 'left', x: 9, y: 1 },
+            comment: 'Ünïcödé & 100%'
+        },
+        {
+            board: ['T.........'],
+            piece: { name: 'S', rotation: 'right', x: 0, y: 1 },
+            comment: ''
+        },
+        {
+            board: ['Z.........', 'ZZ........', '.Z........'],
+            piece: { name: 'Z', rotation: 'left', x: 3, y: 1 },
+            comment: ''
+        }
+    ];
+
+    expect(decodeFumen(encodeFumen(pages))).toEqual(pages);
+
+    // Long fumens get split up, the question marks are left out when reading them.
+    const long = encodeFumen(pages);
+    expect(long).toContain('?');
+    expect(decodeFumen(long.replace(/\?/g, ''))).toEqual(pages);
+
+    // Every rotation of every piece keeps its position.
+    for (const name of ['I', 'J', 'L', 'O', 'S', 'Z', 'T']) {
+        for (const rotation of ['spawn', 'right', 'reverse', 'left'] as const) {
+            const page: FumenPage = {
+                board: [],
+                piece: { name: name, rotation: rotation, x: 4, y: 10 },
+                comment: ''
+            };
+
+            expect(decodeFumen(encodeFumen([page]))).toEqual([page]);
+        }
+    }
+});
+
+test('Locking Pieces', () => {
+    // The T locks into the board of the next page, which then did not change.
+    const locked = encodeFumen([
+        { board: ['GGGG.GGGGG'], piece: { name: 'T', rotation: 'spawn', x: 4, y: 1 }, comment: '' },
+        { board: ['....T.....', '...TTT....', 'GGGG.GGGGG'], piece: null, comment: '' }
+    ]);
+    expect(locked.endsWith('vhAAgH')).toBe(true);
+
+    // The I clears the line, so the next page is empty again.
+    const cleared = encodeFumen([
+        { board: ['GGGGGG....'], piece: { name: 'I', rotation: 'spawn', x: 7, y: 0 }, comment: '' },
+        { board: [], piece: null, comment: '' }
+    ]);
+    expect(cleared.endsWith('vhAAgH')).toBe(true);
+
+    // Pages that keep the same board only store how many of them there are.
+    const empty: FumenPage = { board: [], piece: null, comment: '' };
+    expect(encodeFumen([empty, empty, empty])).toBe('v115@vhCAgHAgHAgH');
+    expect(decodeFumen('v115@vhCAgHAgHAgH')).toEqual([empty, empty, empty]);
+});
+
+test('Board Setups', () => {
+    const setup: BoardSetup = {
+        board: ['T.........', 'TT.....GGG', 'T....GGGGG'],
+        current: 'L',
+        hold: 'I',
+        queue: 'OSZ'
+    };
+
+    expect(decodeFumen(exportBoardSetup(setup))[0].comment).toBe('#Q=[I](L)OSZ');
+    expect(importBoardSetup(exportBoardSetup(setup))).toEqual(setup);
+    expect(importBoardSetup(exportBoardSetup({ ...setup, hold: null }))).toEqual({
+        ...setup,
+        hold: null
+    });
+
+    // Without a quiz comment, the piece on the page is the current one.
+    expect(
+        importBoardSetup(
+            encodeFumen([
+                {
+                    board: setup.board,
+                    piece: { name: 'J', rotation: 'spawn', x: 4, y: 10 },
+                    comment: ''
+                }
+            ])
+        )
+    ).toEqual({ board: setup.board, current: 'J', hold: null, queue: '' });
+
+    expect(() => importBoardSetup('not a fumen')).toThrowError('NOT A FUMEN');
+    expect(() => importBoardSetup('v110@vhAAgH')).toThrowError(
+        'ONLY VERSION 115 FUMENS ARE SUPPORTED'
+    );
+    expect(() => importBoardSetup('v115@vhAAg')).toThrowError('THE FUMEN IS DAMAGED');
+    expect(() => importBoardSetup('v115@')).toThrowError('THE FUMEN IS DAMAGED');
+});
@@ -1,7 +1,13 @@
 import { CONFIG } from '@/helpers/config';
+import { createCustomMode } from '@/helpers/customMode';
+import { getAttack } from '@/helpers/garbage';
 import { Game } from '@/helpers/game';
-import { allPieces } from '@/helpers/pieceData';
-import { Move, TSpin } from '@/helpers/types';
+import { allPieces, getPieceSet } from '@/helpers/pieceData';
+import { PieceSetType } from '@/helpers/pieceSets';
+import { RANDOMIZERS } from '@/helpers/rng';
+import { RotationSystemType } from '@/helpers/rotation';
+import { getScoringRuleset, ScoringType } from '@/helpers/scoring';
+import { Action, Menu, Move, TSpin, type GameEvents } from '@/helpers/types';
 import { expect, test } from 'vitest';
 
 test('New Game', () => {
@@ -13,7 +19,7 @@ test('New Game', () => {
     // The board is already tested separately,
     // so no need to repeat that here.
 
-    if (CONFIG.MODERN_PIECE_RNG.value) {
+    if (RANDOMIZERS[CONFIG.RANDOMIZER.value].bag) {
         expect(game.nextPieces.length).toBe(13);
     } else {
         expect(game.nextPieces.length).toBe(15);
@@ -156,10 +162,11 @@ test('Get Score', () => {
 
     expect(game.getScore(4, 30, TSpin.None, false)).toBe(24000);
 
-    expect(game.getScore(5, 30, TSpin.None, false)).toBe(0);
+    // Five lines (with pentominoes) score like a Tetris.
+    expect(game.getScore(5, 30, TSpin.None, false)).toBe(24000);
     expect(game.getScore(4, 30, TSpin.Full, false)).toBe(0);
     expect(game.getScore(3, 30, TSpin.Mini, false)).toBe(0);
-    expect(game.getScore(5, 30, TSpin.None, true)).toBe(0);
+    expect(game.getScore(5, 30, TSpin.None, true)).toBe(60000);
 
     expect(game.getScore(0, 30, TSpin.Full, false)).toBe(12000);
     expect(game.getScore(3, 30, TSpin.Full, false)).toBe(48000);
@@ -167,38 +174,39 @@ test('Get Score', () => {
     expect(game.getScore(4, 30, TSpin.None, true)).toBe(60000);
 });
 
-test('Get Fall Speed', () => {
+test('Get Gravity', () => {
     const game = new Game();
 
-    expect(game.getFallSpeed()).toBe(48);
+    // The default curve is the one of the NES version.
+    expect(game.getGravity()).toBe(1 / 48);
 
     game.level = 5;
 
-    expect(game.getFallSpeed()).toBe(28);
+    expect(game.getGravity()).toBe(1 / 28);
 
     game.level = 10;
 
-    expect(game.getFallSpeed()).toBe(6);
+    expect(game.getGravity()).toBe(1 / 6);
 
     game.level = 13;
 
-    expect(game.getFallSpeed()).toBe(5);
+    expect(game.getGravity()).toBe(1 / 5);
 
     game.level = 15;
 
-    expect(game.getFallSpeed()).toBe(4);
+    expect(game.getGravity()).toBe(1 / 4);
 
     game.level = 19;
 
-    expect(game.getFallSpeed()).toBe(3);
+    expect(game.getGravity()).toBe(1 / 3);
 
     game.level = 22;
 
-    expect(game.getFallSpeed()).toBe(2);
+    expect(game.getGravity()).toBe(1 / 2);
 
     game.level = 31;
 
-    expect(game.getFallSpeed()).toBe(1);
+    expect(game.getGravity()).toBe(1);
 });
 
 test('Increment Piece Count', () => {
@@ -211,6 +219,51 @@ test('Increment Piece Count', () => {
     expect(game.pieceCountList.reduce((a, b) => a + b)).toBe(2);
 });
 
+test('Pentomino Game', () => {
+    CONFIG.PIECE_SET.value = PieceSetType.Pentominoes;
+    const game = new Game(Menu.Endless, null, null, 1, 5, true);
+    CONFIG.PIECE_SET.value = PieceSetType.Tetrominoes;
+
+    expect(game.pieceSet.length).toBe(18);
+    expect(game.pieceCountList.length).toBe(18);
+    expect(game.pieceSet.map((p) => p.name)).toContain(game.currentPiece.name);
+
+    game.start();
+    for (let i = 0; i < 5; i++) {
+        game.performAction(Action.HardDrop);
+        game.advanceTick();
+    }
+
+    expect(game.pieceCountList.reduce((a, b) => a + b)).toBe(6);
+    // Every piece on the board is made of five blocks, the current one included.
+    expect(game.board.GameBoard.flat().filter((b) => b !== 0).length).toBe(30);
+
+    // Five lines at once count and score like a Tetris, and keep the back-to-back going.
+    CONFIG.PIECE_SET.value = PieceSetType.Pentominoes;
+    const clears = new Game(Menu.Endless, null, null, 1, 5, true);
+    CONFIG.PIECE_SET.value = PieceSetType.Tetrominoes;
+
+    const events: GameEvents['lineClear'][] = [];
+    clears.events.on('lineClear', (e) => events.push(e));
+
+    for (let i = 0; i < 2; i++) {
+        for (let j = 17; j < 22; j++) {
+            clears.board.GameBoard[j] = new Array(10).fill(8);
+        }
+        clears.nextTurn();
+    }
+
+    expect(clears.lineCount).toBe(10);
+    expect(clears.lineCountList).toEqual([0, 0, 0, 2]);
+    expect(events.map((e) => e.b2b)).toEqual([false, true]);
+    expect(events.map(getAttack)).toEqual([4, 5]);
+    expect(clears.score).toBe(800 + 1200 + 50);
+
+    const scored = { ...events[0], level: 1, comboLines: 5 };
+    expect(getScoringRuleset(ScoringType.NES).getClearScore(scored)).toBe(1200);
+    expect(getScoringRuleset(ScoringType.Attack).getClearScore(scored)).toBe(4);
+});
+
 test('Detect T-Spin', () => {
     const game = new Game();
 
@@ -249,3 +302,205 @@ test('Detect T-Spin', () => {
 
     expect(game.detectTSpin()).toBe(TSpin.None);
 });
+
+/**
+ * Rotates a T of a rotation system into a slot at the bottom of the board, with blocks around it.
+ */
+const detectTSpin = (system: RotationSystemType, rotation: number, blocks: number[][]): TSpin => {
+    const game = new Game();
+    const piece = getPieceSet(system).find((p) => p.name === 'T')!;
+
+    piece.offset = [15, 3];
+    piece.currentRotation = rotation;
+    game.currentPiece = piece;
+    game.lastMove = Move.Rotation;
+
+    // The T is already part of the board, just like when it locks.
+    for (const [i, j] of [...piece.getCoordinates(), ...blocks]) {
+        game.board.GameBoard[i][j] = 1;
+    }
+
+    return game.detectTSpin();
+};
+
+test('Detect T-Spin ARS', () => {
+    // The ARS T spawns pointing down, so the front corners are below its centre.
+    expect(
+        detectTSpin(RotationSystemType.ARS, 0, [
+            [17, 3],
+            [17, 5],
+            [15, 3]
+        ])
+    ).toBe(TSpin.Full);
+    expect(
+        detectTSpin(RotationSystemType.ARS, 0, [
+            [15, 3],
+            [15, 5],
+            [17, 3]
+        ])
+    ).toBe(TSpin.Mini);
+
+    // Pointing up, the centre is one row lower than in the other states.
+    expect(detectTSpin(RotationSystemType.ARS, 2, [[15, 3]])).toBe(TSpin.None);
+    expect(detectTSpin(RotationSystemType.ARS, 2, [[16, 3]])).toBe(TSpin.None);
+    expect(
+        detectTSpin(RotationSystemType.ARS, 2, [
+            [16, 3],
+            [16, 5],
+            [18, 3]
+        ])
+    ).toBe(TSpin.Full);
+    expect(
+        detectTSpin(RotationSystemType.ARS, 2, [
+            [18, 3],
+            [18, 5],
+            [16, 5]
+        ])
+    ).toBe(TSpin.Mini);
+});
+
+test('Detect T-Spin Classic', () => {
+    expect(
+        detectTSpin(RotationSystemType.Classic, 1, [
+            [15, 3],
+            [17, 3],
+            [15, 5]
+        ])
+    ).toBe(TSpin.Full);
+    expect(
+        detectTSpin(RotationSystemType.Classic, 2, [
+            [15, 3],
+            [15, 5],
+            [17, 5]
+        ])
+    ).toBe(TSpin.Full);
+    expect(
+        detectTSpin(RotationSystemType.Classic, 2, [
+            [17, 3],
+            [17, 5],
+            [15, 3]
+        ])
+    ).toBe(TSpin.Mini);
+    expect(detectTSpin(RotationSystemType.Classic, 3, [[15, 5]])).toBe(TSpin.None);
+});
+
+test('Seeded Game', () => {
+    const game1 = new Game(Menu.Endless, null, null, 1, 1337);
+    const game2 = new Game(Menu.Endless, null, null, 1, 1337);
+
+    expect(game1.seed).toBe(1337);
+    expect(game1.currentPiece.name).toBe(game2.currentPiece.name);
+    expect(game1.nextPieces.map((p) => p.name)).toEqual(game2.nextPieces.map((p) => p.name));
+
+    game1.board.insertGarbageLines(4, game1.currentPiece, game1.garbageRandom);
+    game2.board.insertGarbageLines(4, game2.currentPiece, game2.garbageRandom);
+
+    expect(game1.board.GameBoard).toEqual(game2.board.GameBoard);
+});
+
+test('Headless Game', () => {
+    const game = new Game(Menu.Sprint, 40, null, 1, 4321, true);
+    game.frozen = false;
+
+    expect(game.audioPlayer.muted).toBe(true);
+
+    // Just hard dropping every piece will top out eventually.
+    let steps = 0;
+    while (!game.over && steps < 10000) {
+        game.step([Action.HardDrop]);
+        game.step();
+        steps++;
+    }
+
+    expect(game.over).toBe(true);
+    expect(game.frame).toBeGreaterThan(0);
+    expect(game.timer.currentTime).toBe(Math.round((game.frame * 1000) / 60));
+
+    // Headless games do not save anything.
+    game.saveResults();
+    expect(localStorage.getItem(`highscore-${Menu.Sprint}`)).toBe(null);
+    expect(localStorage.getItem('stats-GAMES_PLAYED')).toBe(null);
+});
+
+test('Held Actions', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 1234, true);
+    game.frozen = false;
+
+    const leftmostColumn = () => Math.min(...game.currentPiece.getCoordinates().map((c) => c[1]));
+    const startColumn = leftmostColumn();
+
+    game.pressAction(Action.MoveLeft);
+
+    // The first move happens immediately.
+    expect(leftmostColumn()).toBe(startColumn - 1);
+
+    // Holding the key down again does not do anything.
+    game.pressAction(Action.MoveLeft);
+    expect(leftmostColumn()).toBe(startColumn - 1);
+
+    // And after the DAS and the ARR, the piece will be at the wall.
+    for (let i = 0; i < 60; i++) {
+        game.step();
+    }
+
+    expect(leftmostColumn()).toBe(0);
+
+    // Pressing the opposite direction stops the first one.
+    game.pressAction(Action.MoveRight);
+    expect(game.heldActions.map((h) => h.action)).toEqual([Action.MoveRight]);
+
+    game.releaseAction(Action.MoveRight);
+    expect(game.heldActions).toEqual([]);
+});
+
+test('Game Events', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 1234, true);
+    game.frozen = false;
+
+    const events: string[] = [];
+    game.events.onAny((event) => events.push(event));
+
+    const locks: number[] = [];
+    const unsubscribe = game.events.on('pieceLocked', (e) => locks.push(e.lines));
+
+    game.performAction(Action.MoveLeft);
+    game.performAction(Action.RotateCW);
+    game.performAction(Action.Hold);
+    game.performAction(Action.HardDrop);
+
+    expect(events).toEqual(['move', 'rotate', 'hold', 'pieceLocked']);
+    expect(locks).toEqual([0]);
+
+    unsubscribe();
+    game.performAction(Action.HardDrop);
+    expect(locks).toEqual([0]);
+
+    // Filling up two lines, which get cleared on the next turn.
+    const lineClears: GameEvents['lineClear'][] = [];
+    game.events.on('lineClear', (e) => lineClears.push(e));
+
+    game.board.GameBoard[21] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1];
+    game.board.GameBoard[20] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1];
+    game.nextTurn();
+
+    expect(lineClears).toEqual([
+        { count: 2, tSpin: TSpin.None, b2b: false, combo: 0, perfectClear: false }
+    ]);
+
+    while (!game.over) {
+        game.step([Action.HardDrop]);
+    }
+    expect(events[events.length - 1]).toBe('topOut');
+
+    // Running out of a limit of a custom mode is a game over too, without topping out.
+    const mode = { ...createCustomMode(), lines: 10, pieces: 1 };
+    const custom = new Game(Menu.Custom, null, null, 1, 1234, true, 10, 22, mode);
+    const customEvents: string[] = [];
+    custom.events.onAny((event) => customEvents.push(event));
+
+    custom.step([Action.HardDrop]);
+    custom.step();
+    expect(custom.over).toBe(true);
+    expect(customEvents).toContain('failed');
+    expect(customEvents).not.toContain('topOut');
+});
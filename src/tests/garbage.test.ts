@@ -0,0 +1,281 @@
+import { GARBAGE_BLOCK } from '@/helpers/board';
+import { CONFIG } from '@/helpers/config';
+import {
+    DIG_PIECES_PER_GARBAGE,
+    DIG_START_HEIGHT,
+    generateGarbageLines,
+    getAttack,
+    getRiseInterval,
+    SURVIVAL_MIN_INTERVAL
+} from '@/helpers/garbage';
+import { Game } from '@/helpers/game';
+import { Random } from '@/helpers/rng';
+import { setHighScore } from '@/helpers/score';
+import { ScoringType } from '@/helpers/scoring';
+import { Action, Menu, TSpin } from '@/helpers/types';
+import { Versus } from '@/helpers/versus';
+import { expect, test } from 'vitest';
+
+const clear = (count: number, tSpin = TSpin.None, b2b = false, combo = 0, perfectClear = false) => {
+    return { count, tSpin, b2b, combo, perfectClear };
+};
+
+test('Get Attack', () => {
+    expect(getAttack(clear(1))).toBe(0);
+    expect(getAttack(clear(2))).toBe(1);
+    expect(getAttack(clear(3))).toBe(2);
+    expect(getAttack(clear(4))).toBe(4);
+
+    expect(getAttack(clear(0, TSpin.Full))).toBe(0);
+    expect(getAttack(clear(1, TSpin.Full))).toBe(2);
+    expect(getAttack(clear(2, TSpin.Full))).toBe(4);
+    expect(getAttack(clear(3, TSpin.Full))).toBe(6);
+    expect(getAttack(clear(1, TSpin.Mini))).toBe(0);
+    expect(getAttack(clear(2, TSpin.Mini))).toBe(1);
+
+    // Back-to-back, combos and perfect clears are added on top.
+    expect(getAttack(clear(4, TSpin.None, true))).toBe(5);
+    expect(getAttack(clear(2, TSpin.None, false, 2))).toBe(2);
+    expect(getAttack(clear(1, TSpin.None, false, 50))).toBe(5);
+    expect(getAttack(clear(4, TSpin.None, false, 0, true))).toBe(14);
+});
+
+test('Cancel Garbage', () => {
+    const versus = new Versus(1, true);
+    const [game1, game2] = versus.games;
+    versus.start();
+
+    game1.queueGarbage(3);
+
+    expect(game1.cancelGarbage(1)).toBe(0);
+    expect(game1.incomingGarbage).toBe(2);
+    expect(game1.cancelGarbage(4)).toBe(2);
+    expect(game1.incomingGarbage).toBe(0);
+
+    // A tetris of player 2 sends 4 lines, 2 of which get cancelled by their own incoming garbage.
+    game2.queueGarbage(2);
+    game2.events.emit('lineClear', clear(4));
+
+    expect(game2.incomingGarbage).toBe(0);
+    expect(game1.incomingGarbage).toBe(2);
+    expect(versus.linesSent).toEqual([0, 2]);
+
+    // The garbage rises once player 1 locks a piece without clearing lines.
+    game1.step([Action.HardDrop]);
+
+    expect(game1.incomingGarbage).toBe(0);
+    expect(game1.board.GameBoard[21].filter((b) => b === GARBAGE_BLOCK).length).toBe(9);
+    expect(game1.board.GameBoard[20].filter((b) => b === GARBAGE_BLOCK).length).toBe(9);
+});
+
+test('Versus Queues', () => {
+    const versus = new Versus(1, true);
+    const [game1, game2] = versus.games;
+    versus.start();
+
+    // Only player 1 gets garbage, which must not change the pieces they get.
+    game2.events.emit('lineClear', clear(4));
+    game1.step([Action.HardDrop]);
+    game2.step([Action.HardDrop]);
+    game1.performAction(Action.InsertGarbage);
+
+    expect(game1.board.getGarbageLineCount()).toBe(6);
+    expect(game2.board.getGarbageLineCount()).toBe(0);
+    expect(game1.currentPiece.name).toBe(game2.currentPiece.name);
+    expect(game1.nextPieces.map((p) => p.name)).toEqual(game2.nextPieces.map((p) => p.name));
+});
+
+test('Versus Winner', () => {
+    const versus = new Versus(1, true);
+    const [game1, game2] = versus.games;
+    versus.start();
+
+    while (!versus.isOver()) {
+        game1.step([Action.HardDrop]);
+        game2.step();
+    }
+
+    expect(versus.winner).toBe(1);
+    expect(game1.over).toBe(true);
+    expect(game2.finished).toBe(true);
+});
+
+test('Generate Garbage Lines', () => {
+    const holes = (lines: number[][]) => lines.map((line) => line.indexOf(0));
+
+    // Every line has exactly one hole.
+    const lines = generateGarbageLines(20, 10, 0.5, new Random(1234));
+    for (let i = 0; i < lines.length; i++) {
+        expect(lines[i].filter((b) => b === 0).length).toBe(1);
+        expect(lines[i].filter((b) => b === GARBAGE_BLOCK).length).toBe(9);
+    }
+
+    // Clean garbage keeps the hole in one column, and continues from the line above.
+    expect(new Set(holes(generateGarbageLines(10, 10, 0, new Random(1234)))).size).toBe(1);
+    expect(holes(generateGarbageLines(5, 10, 0, new Random(1234), 3))).toEqual([3, 3, 3, 3, 3]);
+
+    // Messy garbage moves the hole on every line.
+    const messy = holes(generateGarbageLines(20, 10, 1, new Random(1234), 3));
+    expect(messy[0]).not.toBe(3);
+    for (let i = 1; i < messy.length; i++) {
+        expect(messy[i]).not.toBe(messy[i - 1]);
+    }
+
+    // The same seed gets the same garbage.
+    expect(generateGarbageLines(10, 10, 0.5, new Random(99))).toEqual(
+        generateGarbageLines(10, 10, 0.5, new Random(99))
+    );
+});
+
+/**
+ * Fills the hole of the bottom line, and locks the turn to clear it.
+ * The current piece is taken off the board, it would be in the way of the next one.
+ */
+const clearBottomLine = (game: Game) => {
+    const board = game.board.GameBoard;
+    const coords = game.currentPiece.getCoordinates();
+
+    for (let i = 0; i < coords.length; i++) {
+        board[coords[i][0]][coords[i][1]] = 0;
+    }
+
+    board[board.length - 1][board[board.length - 1].indexOf(0)] = 1;
+    game.invokeNextTurn(0);
+};
+
+test('Cheese Race', () => {
+    const game = new Game(Menu.Cheese, null, null, 1, 1234, true);
+    const board = game.board.GameBoard;
+
+    expect(game.garbageGoal).toBe(10);
+    expect(game.board.getGarbageLineCount()).toBe(10);
+    for (let i = 12; i < 22; i++) {
+        expect(board[i].filter((b) => b === 0).length).toBe(1);
+    }
+    expect(board[11].filter((b) => b === 0).length).toBe(10);
+
+    clearBottomLine(game);
+
+    expect(game.garbageCleared).toBe(1);
+    expect(game.board.getGarbageLineCount()).toBe(9);
+
+    // Clearing all of it finishes the race.
+    game.frozen = false;
+    game.garbageCleared = 10;
+    game.step();
+    expect(game.finished).toBe(true);
+});
+
+test('Cheese Race Refill', () => {
+    CONFIG.CHEESE_MINIMUM_GARBAGE.value = 3;
+    const game = new Game(Menu.Cheese, null, null, 1, 1234, true);
+    CONFIG.CHEESE_MINIMUM_GARBAGE.value = 0;
+
+    expect(game.board.getGarbageLineCount()).toBe(3);
+
+    // Cleared garbage gets refilled, until all 10 lines came up.
+    for (let i = 0; i < 9; i++) {
+        clearBottomLine(game);
+
+        expect(game.garbageCleared).toBe(i + 1);
+        expect(game.board.getGarbageLineCount()).toBe(Math.min(3, 10 - i - 1));
+    }
+
+    // Records are based on the time, like a sprint.
+    expect(setHighScore(Menu.Cheese, 0, 60000, false, ScoringType.Guideline)).toBe(true);
+    expect(setHighScore(Menu.Cheese, 0, 70000, false, ScoringType.Guideline)).toBe(false);
+    expect(setHighScore(Menu.Cheese, 0, 10000, true, ScoringType.Guideline)).toBe(false);
+
+    localStorage.clear();
+});
+
+test('Cheese Race Queue', () => {
+    CONFIG.CHEESE_MINIMUM_GARBAGE.value = 3;
+    const cheese = new Game(Menu.Cheese, null, null, 1, 1234, true);
+    CONFIG.CHEESE_MINIMUM_GARBAGE.value = 0;
+    const endless = new Game(Menu.Endless, null, null, 1, 1234, true);
+
+    // The refilled garbage does not change the pieces, they are the same as in a game without garbage.
+    for (let i = 0; i < 5; i++) {
+        clearBottomLine(cheese);
+        endless.step([Action.HardDrop]);
+    }
+
+    expect(cheese.garbageCleared).toBe(5);
+    expect(cheese.currentPiece.name).toBe(endless.currentPiece.name);
+    expect(cheese.nextPieces.map((p) => p.name)).toEqual(endless.nextPieces.map((p) => p.name));
+});
+
+test('Rise Interval', () => {
+    expect(getRiseInterval(10000, 5, 0)).toBe(600);
+    expect(getRiseInterval(10000, 5, 1)).toBe(570);
+    expect(getRiseInterval(10000, 0, 50)).toBe(600);
+
+    // It never gets faster than the minimum.
+    expect(getRiseInterval(10000, 50, 100)).toBe((SURVIVAL_MIN_INTERVAL / 1000) * 60);
+});
+
+test('Survival', () => {
+    const game = new Game(Menu.Survival, null, null, 1, 1234, true);
+    game.frozen = false;
+
+    expect(game.riseTicksRemaining).toBe(600);
+
+    for (let i = 0; i < 600; i++) {
+        game.step();
+    }
+
+    // The first line rose, and the next one comes a bit faster.
+    expect(game.garbageRises).toBe(1);
+    expect(game.board.getGarbageLineCount()).toBe(1);
+    expect(game.board.GameBoard[21].filter((b) => b === GARBAGE_BLOCK).length).toBe(9);
+    expect(game.riseTicksRemaining).toBe(570);
+
+    // Pushing the stack out of the top ends the run, but it is not a failure.
+    game.board.GameBoard[0] = new Array(10).fill(8);
+    game.riseTicksRemaining = 1;
+    game.step();
+
+    expect(game.finished).toBe(true);
+    expect(game.over).toBe(false);
+
+    // The longest run is the record, topping out is how every run ends.
+    expect(setHighScore(Menu.Survival, 0, 60000, true, ScoringType.Guideline)).toBe(true);
+    expect(setHighScore(Menu.Survival, 0, 50000, false, ScoringType.Guideline)).toBe(false);
+    expect(setHighScore(Menu.Survival, 0, 70000, false, ScoringType.Guideline)).toBe(true);
+
+    localStorage.clear();
+});
+
+test('Dig', () => {
+    const game = new Game(Menu.Dig, null, null, 1, 1234, true);
+    game.frozen = false;
+
+    expect(game.garbageGoal).toBe(40);
+    expect(game.board.getGarbageLineCount()).toBe(DIG_START_HEIGHT);
+
+    // Garbage is counted apart from the other lines.
+    clearBottomLine(game);
+    expect(game.garbageCleared).toBe(1);
+    expect(game.lineCount).toBe(1);
+    expect(game.board.getGarbageLineCount()).toBe(DIG_START_HEIGHT);
+
+    // The greyed out board does not turn into garbage.
+    CONFIG.COLORED_BOARD.value = false;
+    game.step([Action.HardDrop]);
+    CONFIG.COLORED_BOARD.value = true;
+    expect(game.board.getGarbageLineCount()).toBe(DIG_START_HEIGHT);
+
+    // More garbage comes up after a few pieces without a line clear.
+    for (let i = 1; i < DIG_PIECES_PER_GARBAGE; i++) {
+        game.step([Action.HardDrop]);
+    }
+    expect(game.board.getGarbageLineCount()).toBe(DIG_START_HEIGHT + 1);
+
+    // But never more than the goal.
+    game.garbageCleared = 40 - DIG_START_HEIGHT - 1;
+    for (let i = 0; i < DIG_PIECES_PER_GARBAGE; i++) {
+        game.step([Action.HardDrop]);
+    }
+    expect(game.board.getGarbageLineCount()).toBe(DIG_START_HEIGHT + 1);
+});
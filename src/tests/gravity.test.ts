@@ -0,0 +1,122 @@
+import { CONFIG } from '@/helpers/config';
+import { Game } from '@/helpers/game';
+import {
+    findGravity,
+    getGravityRows,
+    getGravityTable,
+    GRAVITY_CURVES,
+    GravityCurveType,
+    INSTANT_GRAVITY,
+    parseGravityTable,
+    TGM_GRAVITY
+} from '@/helpers/gravity';
+import { Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+test('Find Gravity', () => {
+    const table = [
+        [3, 0.1],
+        [5, 1],
+        [10, 20]
+    ];
+
+    expect(findGravity(table, 1)).toBe(0.1);
+    expect(findGravity(table, 4)).toBe(0.1);
+    expect(findGravity(table, 5)).toBe(1);
+    expect(findGravity(table, 9)).toBe(1);
+    expect(findGravity(table, 100)).toBe(20);
+
+    expect(findGravity(TGM_GRAVITY, 0)).toBe(4 / 256);
+    expect(findGravity(TGM_GRAVITY, 251)).toBe(1);
+    expect(findGravity(TGM_GRAVITY, 999)).toBe(INSTANT_GRAVITY);
+});
+
+test('Gravity Curves', () => {
+    const guideline = GRAVITY_CURVES[GravityCurveType.Guideline].table;
+
+    // One row per second on level 1.
+    expect(findGravity(guideline, 1)).toBeCloseTo(1 / 60);
+    expect(findGravity(guideline, 10)).toBeGreaterThan(findGravity(guideline, 9));
+    expect(findGravity(guideline, 20)).toBe(INSTANT_GRAVITY);
+
+    const tgm = GRAVITY_CURVES[GravityCurveType.TGM].table;
+    expect(findGravity(tgm, 1)).toBe(4 / 256);
+    expect(findGravity(tgm, 21)).toBe(INSTANT_GRAVITY);
+
+    // Every curve gets faster in the end.
+    for (let i = 0; i < GRAVITY_CURVES.length; i++) {
+        const table = GRAVITY_CURVES[i].table;
+        expect(findGravity(table, 100)).toBeGreaterThan(findGravity(table, 1));
+    }
+});
+
+test('Gravity Rows', () => {
+    // With 1/48G, a piece falls one row every 48 ticks.
+    let rows = 0;
+    for (let i = 1; i <= 480; i++) {
+        rows += getGravityRows(1 / 48, i, 22);
+    }
+    expect(rows).toBe(10);
+
+    expect(getGravityRows(1, 5, 22)).toBe(1);
+    expect(getGravityRows(3, 5, 22)).toBe(3);
+    expect(getGravityRows(2.5, 1, 22) + getGravityRows(2.5, 2, 22)).toBe(5);
+    expect(getGravityRows(INSTANT_GRAVITY, 1, 40)).toBe(40);
+});
+
+test('Parse Gravity Table', () => {
+    expect(parseGravityTable('[[5, 1], [1, 0.5]]')).toEqual([
+        [1, 0.5],
+        [5, 1]
+    ]);
+
+    expect(() => parseGravityTable('{')).toThrow('NOT A GRAVITY TABLE');
+    expect(() => parseGravityTable('{}')).toThrow('NOT A GRAVITY TABLE');
+    expect(() => parseGravityTable('[]')).toThrow('THE GRAVITY TABLE IS EMPTY');
+    expect(() => parseGravityTable('[[1, 0]]')).toThrow('ENTRY 1 IS INVALID');
+    expect(() => parseGravityTable('[[1, 1], [0.5, 1]]')).toThrow('ENTRY 2 IS INVALID');
+
+    // A broken custom table falls back to the NES curve.
+    expect(getGravityTable(GravityCurveType.Custom, '[[1, 2]]')).toEqual([[1, 2]]);
+    expect(getGravityTable(GravityCurveType.Custom, 'broken')).toBe(
+        GRAVITY_CURVES[GravityCurveType.NES].table
+    );
+});
+
+test('Fast Gravity', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 1234, true);
+    game.frozen = false;
+    game.gravityTable = [[1, 2]];
+
+    const top = () => Math.min(...game.currentPiece.getCoordinates().map((c) => c[0]));
+    const start = top();
+
+    game.step();
+    game.step();
+
+    expect(top()).toBe(start + 4);
+});
+
+test('Instant Gravity', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 1234, true);
+    game.frozen = false;
+    game.gravityTable = [[1, INSTANT_GRAVITY]];
+
+    game.step();
+
+    // The piece falls all the way down on the first tick, and starts waiting to lock.
+    expect(game.currentPiece.isGrounded(game.board)).toBe(true);
+    expect(game.waitForLock).toBe(true);
+
+    const piece = game.currentPiece;
+    for (let i = 0; i < CONFIG.PIECE_LOCK_TICKS.value + 1; i++) {
+        game.step();
+    }
+
+    expect(game.currentPiece).not.toBe(piece);
+
+    // The next piece appears on the ground right away, with its lock delay running.
+    expect(game.currentPiece.isGrounded(game.board)).toBe(true);
+    expect(game.waitForLock).toBe(true);
+    expect(game.pieceCountList.reduce((a, b) => a + b)).toBe(2);
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+
+import { GameLoop, MAX_CATCH_UP_TICKS, TICK_DURATION } from '@/helpers/loop';
+
+function createLoop(): { loop: GameLoop; ticks: () => number } {
+    let ticks = 0;
+    const loop = new GameLoop(() => ticks++);
+    loop.running = true;
+
+    return { loop, ticks: () => ticks };
+}
+
+describe('Fixed Time Step', () => {
+    test('The first frame only sets the starting point', () => {
+        const { loop, ticks } = createLoop();
+
+        loop.update(1000);
+        expect(ticks()).toBe(0);
+    });
+
+    test('Runs one tick per 1/60th of a second', () => {
+        const { loop, ticks } = createLoop();
+
+        loop.update(0);
+        for (let i = 1; i <= 60; i++) {
+            loop.update(i * TICK_DURATION);
+        }
+
+        expect(ticks()).toBe(60);
+        expect(loop.lateFrames).toBe(0);
+    });
+
+    test('Collects time on a faster display', () => {
+        const { loop, ticks } = createLoop();
+
+        // 120 frames per second for one second.
+        loop.update(0);
+        for (let i = 1; i <= 120; i++) {
+            loop.update((i * 1000) / 120);
+        }
+
+        expect(ticks()).toBe(60);
+        expect(loop.lateFrames).toBe(0);
+    });
+
+    test('Catches up after late frames', () => {
+        const { loop, ticks } = createLoop();
+
+        loop.update(0);
+        loop.update(TICK_DURATION * 3);
+
+        expect(ticks()).toBe(3);
+        expect(loop.lateFrames).toBe(1);
+        expect(loop.droppedTicks).toBe(0);
+    });
+
+    test('Drops ticks above the catch-up limit', () => {
+        const { loop, ticks } = createLoop();
+
+        loop.update(0);
+        loop.update(TICK_DURATION * (MAX_CATCH_UP_TICKS + 10));
+
+        expect(ticks()).toBe(MAX_CATCH_UP_TICKS);
+        expect(loop.droppedTicks).toBe(10);
+    });
+
+    test('Stops in the middle of a frame', () => {
+        let ticks = 0;
+        const loop = new GameLoop(() => {
+            ticks++;
+            loop.stop();
+        });
+        loop.running = true;
+
+        loop.update(0);
+        loop.update(TICK_DURATION * 4);
+
+        expect(ticks).toBe(1);
+    });
+});
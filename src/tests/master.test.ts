@@ -0,0 +1,138 @@
+import { Game } from '@/helpers/game';
+import { TGM_GRAVITY } from '@/helpers/gravity';
+import {
+    getMasterTimings,
+    getNextMasterLevel,
+    getSectionEnd,
+    GRADES,
+    MASTER_MAX_LEVEL,
+    MasterGrading
+} from '@/helpers/master';
+import { getMaxLevel } from '@/helpers/mode';
+import { getHighScore, setHighScore } from '@/helpers/score';
+import { ScoringType } from '@/helpers/scoring';
+import { ticksToMs } from '@/helpers/timer';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+test('Next Master Level', () => {
+    // Every piece counts.
+    expect(getNextMasterLevel(0, 0)).toBe(1);
+    // And every line.
+    expect(getNextMasterLevel(10, 4)).toBe(15);
+
+    // Only line clears can finish a section.
+    expect(getNextMasterLevel(98, 0)).toBe(99);
+    expect(getNextMasterLevel(99, 0)).toBe(99);
+    expect(getNextMasterLevel(99, 1)).toBe(101);
+    expect(getNextMasterLevel(97, 2)).toBe(99);
+
+    // Or the game.
+    expect(getNextMasterLevel(998, 0)).toBe(998);
+    expect(getNextMasterLevel(998, 1)).toBe(MASTER_MAX_LEVEL);
+    expect(getNextMasterLevel(997, 4)).toBe(MASTER_MAX_LEVEL);
+
+    expect(getSectionEnd(0)).toBe(100);
+    expect(getSectionEnd(250)).toBe(300);
+    expect(getSectionEnd(950)).toBe(MASTER_MAX_LEVEL);
+    expect(getMaxLevel(Menu.Master)).toBe(MASTER_MAX_LEVEL);
+    expect(getMaxLevel(Menu.Marathon)).toBe(null);
+});
+
+test('Master Timings', () => {
+    // The delays only get shorter.
+    for (let level = 100; level < MASTER_MAX_LEVEL; level += 100) {
+        const previous = getMasterTimings(level - 100);
+        const timings = getMasterTimings(level);
+
+        expect(timings.are).toBeLessThanOrEqual(previous.are);
+        expect(timings.lockTicks).toBeLessThanOrEqual(previous.lockTicks);
+        expect(timings.lineClearTicks).toBeLessThanOrEqual(previous.lineClearTicks);
+    }
+
+    expect(getMasterTimings(MASTER_MAX_LEVEL)).toBe(getMasterTimings(900));
+});
+
+test('Master Grading', () => {
+    const grading = new MasterGrading();
+    expect(GRADES[grading.getGrade()]).toBe('9');
+
+    // Nothing happens within a section.
+    expect(grading.update(50, 30000)).toBe(false);
+
+    // A section in time gets you two grades.
+    expect(grading.update(101, 60000)).toBe(true);
+    expect(grading.sectionTimes).toEqual([60000]);
+    expect(GRADES[grading.getGrade()]).toBe('7');
+
+    // A slow one only gets you one.
+    grading.update(200, 160000);
+    expect(grading.sectionTimes).toEqual([60000, 100000]);
+    expect(GRADES[grading.getGrade()]).toBe('6');
+
+    // Everything in time gets you GM.
+    const master = new MasterGrading();
+    for (let i = 1; i <= 10; i++) {
+        master.update(i === 10 ? MASTER_MAX_LEVEL : i * 100, i * 50000);
+    }
+    expect(master.sectionTimes.length).toBe(10);
+    expect(GRADES[master.getGrade()]).toBe('GM');
+
+    // Missing a single target caps you at S9.
+    const almost = new MasterGrading();
+    for (let i = 1; i <= 10; i++) {
+        almost.update(i === 10 ? MASTER_MAX_LEVEL : i * 100, i * 50000 + (i === 10 ? 10000 : 0));
+    }
+    expect(GRADES[almost.getGrade()]).toBe('S9');
+});
+
+test('Master Game', () => {
+    const game = new Game(Menu.Master, null, null, 5, 1234, true);
+    game.frozen = false;
+
+    // The level select does not matter, Master always starts on level 0.
+    expect(game.level).toBe(0);
+    expect(game.gravityTable).toBe(TGM_GRAVITY);
+    expect(game.lockTicks).toBe(30);
+    expect(game.spawnDelay).toBe(25);
+    expect(game.lineClearDelay).toBe(ticksToMs(40));
+
+    game.step([Action.HardDrop]);
+
+    // The next piece only appears after the spawn delay, and counts for the level.
+    expect(game.frozen).toBe(true);
+    for (let i = 0; i < 25; i++) {
+        game.step();
+    }
+    expect(game.frozen).toBe(false);
+    expect(game.level).toBe(1);
+
+    // Finishing a section speeds up the timings.
+    game.level = 498;
+    game.updateMasterLevel(2);
+    expect(game.level).toBe(501);
+    expect(game.lineClearDelay).toBe(ticksToMs(25));
+    expect(game.grading?.sectionTimes.length).toBe(5);
+
+    // Reaching the last level finishes the game.
+    game.level = MASTER_MAX_LEVEL;
+    game.step();
+    expect(game.finished).toBe(true);
+});
+
+test('Master High Scores', () => {
+    expect(getHighScore(Menu.Master, ScoringType.Guideline)).toBe('- / 00:00.000');
+
+    // A top out still counts.
+    expect(setHighScore(Menu.Master, 1000, 300000, true, ScoringType.Guideline, 3)).toBe(true);
+    expect(getHighScore(Menu.Master, ScoringType.Guideline)).toContain('6 / ');
+
+    // A lower grade does not, even with a better score.
+    expect(setHighScore(Menu.Master, 5000, 100000, true, ScoringType.Guideline, 2)).toBe(false);
+    // The same grade in a faster time does.
+    expect(setHighScore(Menu.Master, 500, 200000, true, ScoringType.Guideline, 3)).toBe(true);
+    expect(setHighScore(Menu.Master, 500, 400000, false, ScoringType.Guideline, 10)).toBe(true);
+    expect(getHighScore(Menu.Master, ScoringType.Guideline)).toContain('S2 / ');
+
+    localStorage.clear();
+});
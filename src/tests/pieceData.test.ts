@@ -1,4 +1,12 @@
-import { allPieces, getDefaultPiece, getPreviewPieceTable } from '@/helpers/pieceData';
+import {
+    allPieces,
+    getDefaultPiece,
+    getPieceSet,
+    getPreviewPieceTable,
+    getPreviewSize
+} from '@/helpers/pieceData';
+import { PIECE_SETS, PieceSetType } from '@/helpers/pieceSets';
+import { RotationSystemType } from '@/helpers/rotation';
 import { expect, test } from 'vitest';
 
 test('All Pieces', () => {
@@ -83,3 +91,30 @@ test('Get Preview Piece Table', () => {
         [0, 0, 0, 0]
     ]);
 });
+
+test('Pentomino Previews', () => {
+    const pieces = getPieceSet(RotationSystemType.SRS, PIECE_SETS[PieceSetType.Pentominoes]);
+
+    expect(pieces.length).toBe(18);
+    expect(pieces[0].color).toBe(16);
+    expect(getPreviewSize(pieces)).toEqual([3, 5]);
+    expect(getPreviewSize(allPieces)).toEqual([2, 4]);
+
+    // The X pentomino in its own color, and every preview has the same size.
+    expect(getDefaultPiece('X', pieces)).toEqual([
+        [0, 0, 29, 0, 0],
+        [0, 29, 29, 29, 0],
+        [0, 0, 29, 0, 0]
+    ]);
+    expect(getDefaultPiece('I5', pieces)).toEqual([
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0],
+        [16 + 2, 16 + 2, 16 + 2, 16 + 2, 16 + 2]
+    ]);
+    expect(getDefaultPiece(null, pieces)).toEqual([
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0]
+    ]);
+    expect(getPreviewPieceTable([null], pieces).length).toBe(5);
+});
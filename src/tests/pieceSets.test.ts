@@ -0,0 +1,142 @@
+import {
+    CUSTOM_COLOR_START,
+    getPieceColor,
+    getPieceSetDefinition,
+    getRotations,
+    parsePieceSet,
+    PIECE_SETS,
+    PieceSetType
+} from '@/helpers/pieceSets';
+import { expect, test } from 'vitest';
+
+test('Get Rotations', () => {
+    const rotations = getRotations([
+        [0, 1, 0],
+        [0, 1, 1],
+        [0, 0, 0]
+    ]);
+
+    expect(rotations.length).toBe(4);
+    expect(rotations[1]).toEqual([
+        [0, 0, 0],
+        [0, 1, 1],
+        [0, 1, 0]
+    ]);
+    expect(rotations[2]).toEqual([
+        [0, 0, 0],
+        [1, 1, 0],
+        [0, 1, 0]
+    ]);
+    expect(rotations[3]).toEqual([
+        [0, 1, 0],
+        [1, 1, 0],
+        [0, 0, 0]
+    ]);
+});
+
+test('Built In Piece Sets', () => {
+    expect(PIECE_SETS[PieceSetType.Tetrominoes].pieces.length).toBe(7);
+    expect(PIECE_SETS[PieceSetType.Pentominoes].pieces.length).toBe(18);
+    expect(PIECE_SETS[PieceSetType.Trominoes].pieces.length).toBe(2);
+
+    // Every state of every pentomino and tromino has the right amount of blocks.
+    const sizes = [
+        [PieceSetType.Pentominoes, 5],
+        [PieceSetType.Trominoes, 3]
+    ];
+
+    for (let i = 0; i < sizes.length; i++) {
+        const pieces = PIECE_SETS[sizes[i][0]].pieces;
+
+        for (let j = 0; j < pieces.length; j++) {
+            expect(pieces[j].rotations!.length).toBe(4);
+
+            for (let k = 0; k < 4; k++) {
+                expect(pieces[j].rotations![k].flat().filter((b) => b === 1).length).toBe(
+                    sizes[i][1]
+                );
+            }
+        }
+    }
+});
+
+test('Get Piece Color', () => {
+    const pentominoes = PIECE_SETS[PieceSetType.Pentominoes];
+
+    expect(getPieceColor(PIECE_SETS[PieceSetType.Tetrominoes], 6)).toBe(7);
+    expect(getPieceColor(pentominoes, 0)).toBe(CUSTOM_COLOR_START);
+    expect(getPieceColor(pentominoes, 17)).toBe(CUSTOM_COLOR_START + 17);
+    expect(getPieceColor(PIECE_SETS[PieceSetType.Trominoes], 1)).toBe(3);
+});
+
+test('Parse Piece Set', () => {
+    const set = parsePieceSet(
+        JSON.stringify({
+            name: 'DOMINO',
+            pieces: [
+                {
+                    name: 'D',
+                    color: '#ff00ff',
+                    rotations: [
+                        [
+                            [1, 1],
+                            [0, 0]
+                        ]
+                    ],
+                    kicks: {
+                        clockwise: [[[1, 0]], [], [], []],
+                        counterClockwise: [[], [], [], [[-1, 0]]]
+                    }
+                }
+            ]
+        })
+    );
+
+    expect(set.name).toBe('DOMINO');
+    expect(set.pieces[0].overhang).toBe(false);
+    // A single state gets turned into all four.
+    expect(set.pieces[0].rotations!.length).toBe(4);
+    expect(set.pieces[0].rotations![1]).toEqual([
+        [0, 1],
+        [0, 1]
+    ]);
+    expect(set.pieces[0].kicks!.clockwise[0]).toEqual([[1, 0]]);
+});
+
+test('Parse Invalid Piece Set', () => {
+    expect(() => parsePieceSet('not json')).toThrowError('NOT A PIECE SET FILE');
+    expect(() => parsePieceSet('{"name": "EMPTY"}')).toThrowError('NOT A PIECE SET FILE');
+    expect(() => parsePieceSet('{"pieces": []}')).toThrowError('THE PIECE SET HAS NO PIECES');
+    expect(() => parsePieceSet('{"pieces": [{"color": 1}]}')).toThrowError('PIECE 1 HAS NO NAME');
+    expect(() =>
+        parsePieceSet('{"pieces": [{"name": "A", "color": 12, "rotations": [[[1]]]}]}')
+    ).toThrowError('PIECE A HAS AN INVALID COLOR');
+    expect(() =>
+        parsePieceSet('{"pieces": [{"name": "A", "color": 1, "rotations": [[[1, 1]]]}]}')
+    ).toThrowError('PIECE A HAS INVALID ROTATIONS');
+    expect(() =>
+        parsePieceSet('{"pieces": [{"name": "A", "color": 1, "rotations": [[[0]]]}]}')
+    ).toThrowError('PIECE A HAS INVALID ROTATIONS');
+    expect(() =>
+        parsePieceSet(
+            '{"pieces": [{"name": "A", "color": 1, "rotations": [[[1]]], "kicks": {"clockwise": []}}]}'
+        )
+    ).toThrowError('PIECE A HAS INVALID KICKS');
+    expect(() =>
+        parsePieceSet(
+            '{"pieces": [{"name": "A", "color": 1, "rotations": [[[1]]]}, {"name": "A", "color": 2, "rotations": [[[1]]]}]}'
+        )
+    ).toThrowError('PIECE A EXISTS TWICE');
+});
+
+test('Get Piece Set Definition', () => {
+    expect(getPieceSetDefinition(PieceSetType.Pentominoes).name).toBe('PENTOMINOES');
+    // A broken custom set falls back to the usual pieces.
+    expect(getPieceSetDefinition(PieceSetType.Custom, '{').name).toBe('TETROMINOES');
+    expect(
+        getPieceSetDefinition(
+            PieceSetType.Custom,
+            '{"name": "MONO", "pieces": [{"name": "M", "color": 4, "rotations": [[[1]]]}]}'
+        ).name
+    ).toBe('MONO');
+});
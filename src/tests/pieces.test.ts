@@ -1,6 +1,8 @@
 import { Board } from '@/helpers/board';
-import { allPieces } from '@/helpers/pieceData';
+import { CONFIG } from '@/helpers/config';
+import { allPieces, getPieceSet } from '@/helpers/pieceData';
 import { Piece } from '@/helpers/pieces';
+import { getSpawnColumn, RotationSystemType } from '@/helpers/rotation';
 import { Direction } from '@/helpers/types';
 import { expect, test } from 'vitest';
 
@@ -25,6 +27,21 @@ test('Reset Piece', () => {
     expect(piece.offset).toEqual([0, 3]);
 });
 
+test('Clone Piece', () => {
+    const piece = allPieces[0];
+    const clone = piece.clone();
+
+    expect(clone).not.toBe(piece);
+    expect(clone.name).toBe(piece.name);
+    expect(clone.color).toBe(piece.color);
+
+    clone.offset[0] = 10;
+    clone.currentRotation = 2;
+
+    expect(piece.offset).toEqual([0, 3]);
+    expect(piece.currentRotation).toBe(0);
+});
+
 test('Spawn Piece', () => {
     const board = new Board();
     const piece = allPieces[0];
@@ -241,6 +258,99 @@ test('Get Wall Kicks', () => {
     oPiece.reset();
 });
 
+test('Get 180 Wall Kicks', () => {
+    const iPiece = allPieces[0].clone();
+    const tPiece = allPieces[6].clone();
+
+    expect(tPiece.getWallKicks(true, true)).toEqual([
+        [0, 0],
+        [0, 1],
+        [1, 1],
+        [-1, 1],
+        [1, 0],
+        [-1, 0]
+    ]);
+
+    // The I piece has its own table, starting with the kick that keeps it on the same cells.
+    iPiece.currentRotation = 1;
+    expect(iPiece.getWallKicks(true, true)).toEqual([
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [1, -1],
+        [1, 2],
+        [1, -2]
+    ]);
+
+    // Every starting rotation has a full table.
+    for (let i = 0; i < 4; i++) {
+        iPiece.currentRotation = i;
+        tPiece.currentRotation = i;
+        expect(iPiece.getWallKicks(true, true).length).toBe(6);
+        expect(tPiece.getWallKicks(true, true).length).toBe(6);
+    }
+
+    CONFIG.KICKS_180.value = false;
+    expect(tPiece.getWallKicks(true, true)).toEqual([[0, 0]]);
+    expect(iPiece.getWallKicks(true, true)).toEqual([[0, 0]]);
+    CONFIG.KICKS_180.value = true;
+});
+
+test('Rotate 180 I Piece', () => {
+    const board = new Board();
+
+    // A vertical I piece in a well on the right side.
+    for (let i = 18; i < 22; i++) {
+        board.GameBoard[i] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+    }
+
+    const iPiece = allPieces[0].clone();
+    iPiece.currentRotation = 1;
+    iPiece.offset = [18, 7];
+
+    const coords = iPiece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board.GameBoard[coords[i][0]][coords[i][1]] = iPiece.color;
+    }
+
+    // Turning it around would move it into the column next to the well, so it gets kicked back in.
+    expect(iPiece.rotate(board, true, true)).toBe(true);
+    expect(iPiece.currentRotation).toBe(3);
+    expect(iPiece.getCoordinates()).toEqual(coords);
+
+    CONFIG.KICKS_180.value = false;
+    expect(iPiece.rotate(board, true, true)).toBe(false);
+    CONFIG.KICKS_180.value = true;
+});
+
+test('Rotate 180 T Piece', () => {
+    const board = new Board();
+
+    // A T piece pointing up, lying on the floor.
+    const tPiece = allPieces[6].clone();
+    tPiece.offset = [20, 3];
+
+    const coords = tPiece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board.GameBoard[coords[i][0]][coords[i][1]] = tPiece.color;
+    }
+
+    // Without kicks the T piece would poke through the floor.
+    CONFIG.KICKS_180.value = false;
+    expect(tPiece.rotate(board, true, true)).toBe(false);
+    CONFIG.KICKS_180.value = true;
+
+    // With them it gets kicked up by one.
+    expect(tPiece.rotate(board, true, true)).toBe(true);
+    expect(tPiece.currentRotation).toBe(2);
+    expect(tPiece.getCoordinates()).toEqual([
+        [20, 3],
+        [20, 4],
+        [20, 5],
+        [21, 4]
+    ]);
+});
+
 test('Get Correct Wall Kick', () => {
     const board = new Board();
 
@@ -287,3 +397,79 @@ test('Get Shadow Piece Coordinates', () => {
         [21, 8]
     ]);
 });
+
+test('Spawn Column', () => {
+    expect(getSpawnColumn(10)).toBe(3);
+    expect(getSpawnColumn(4)).toBe(0);
+    expect(getSpawnColumn(12)).toBe(4);
+
+    const board = new Board(null, 12, 22);
+    const piece = allPieces[6].clone();
+
+    expect(piece.spawn(board)).toBe(true);
+    expect(piece.offset).toEqual([0, 4]);
+});
+
+test('ARS Rotation', () => {
+    const pieces = getPieceSet(RotationSystemType.ARS);
+    const iPiece = pieces[0];
+    const tPiece = pieces[6].clone();
+
+    // The ARS only tries one to the right and one to the left, and the I piece never kicks.
+    expect(iPiece.getWallKicks(true, false)).toEqual([[0, 0]]);
+    expect(tPiece.getWallKicks(true, false)).toEqual([
+        [0, 0],
+        [1, 0],
+        [-1, 0]
+    ]);
+
+    // The T piece points down when it spawns.
+    const board = new Board();
+    tPiece.spawn(board);
+    expect(tPiece.getCoordinates()).toEqual([
+        [1, 3],
+        [1, 4],
+        [1, 5],
+        [2, 4]
+    ]);
+
+    // There are no 180 degree rotations.
+    expect(tPiece.rotate(board, true, true)).toBe(false);
+
+    // A T piece pointing right against the left wall kicks away from it.
+    const kickBoard = new Board();
+    tPiece.currentRotation = 3;
+    tPiece.offset = [10, -1];
+
+    const coords = tPiece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        kickBoard.GameBoard[coords[i][0]][coords[i][1]] = tPiece.color;
+    }
+
+    expect(tPiece.rotate(kickBoard, true, false)).toBe(true);
+    expect(tPiece.currentRotation).toBe(0);
+    expect(tPiece.offset).toEqual([10, 0]);
+});
+
+test('Classic Rotation', () => {
+    const pieces = getPieceSet(RotationSystemType.Classic);
+    const tPiece = pieces[6].clone();
+
+    // Classic pieces spawn one column further right, and never kick.
+    expect(tPiece.offset).toEqual([0, 4]);
+    expect(pieces[0].offset).toEqual([0, 3]);
+    expect(tPiece.getWallKicks(true, false)).toEqual([[0, 0]]);
+
+    const board = new Board();
+    tPiece.currentRotation = 3;
+    tPiece.offset = [10, -1];
+
+    const coords = tPiece.getCoordinates();
+    for (let i = 0; i < coords.length; i++) {
+        board.GameBoard[coords[i][0]][coords[i][1]] = tPiece.color;
+    }
+
+    expect(tPiece.rotate(board, true, false)).toBe(false);
+    expect(tPiece.rotate(board, true, true)).toBe(false);
+    expect(tPiece.currentRotation).toBe(3);
+});
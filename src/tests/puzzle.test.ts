@@ -0,0 +1,164 @@
+import { Game } from '@/helpers/game';
+import {
+    completePuzzle,
+    getObjectiveText,
+    isPuzzleCompleted,
+    loadPuzzlePacks,
+    parsePuzzlePack,
+    PUZZLE_PACKS,
+    savePuzzlePack,
+    type Puzzle
+} from '@/helpers/puzzle';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const L = Action.MoveLeft;
+const R = Action.MoveRight;
+const CW = Action.RotateCW;
+const CCW = Action.RotateCCW;
+// Soft drops the piece all the way down, so that it can still be spun.
+const DOWN = Action.SoftDrop;
+const DROP = Action.HardDrop;
+
+/**
+ * Plays the pieces of a puzzle, every list of actions places one piece.
+ * The names of the events the game emits get added to the events.
+ */
+const playPuzzle = (puzzle: Puzzle, placements: Action[][], events: string[] = []): Game => {
+    const game = new Game(Menu.Puzzle, null, null, 1, 1234, true, 10, 22, null, puzzle);
+    game.events.onAny((event) => events.push(event));
+
+    for (let i = 0; i < placements.length; i++) {
+        for (const action of placements[i]) {
+            if (action === DOWN) {
+                while (!game.currentPiece.isGrounded(game.board)) {
+                    game.performAction(action);
+                }
+            } else {
+                game.performAction(action);
+            }
+        }
+
+        // Waiting out the line clear.
+        while (game.frozen && !game.over && !game.finished) {
+            game.step();
+        }
+        game.step();
+    }
+
+    return game;
+};
+
+const getPuzzle = (pack: string, name: string): Puzzle => {
+    return PUZZLE_PACKS.find((p) => p.name === pack)!.puzzles.find((p) => p.name === name)!;
+};
+
+test('Built-In Puzzles', () => {
+    // Every built-in puzzle can be solved.
+    const solutions: { [name: string]: Action[][] } = {
+        TETRIS: [[CW, R, R, R, R, DROP]],
+        'SQUARE HOLE': [[DROP]],
+        'THREE WIDE': [
+            [CW, R, R, DROP],
+            [CCW, R, R, R, R, R, DROP],
+            [CW, R, R, R, R, DROP]
+        ],
+        'T-SPIN SINGLE': [[CW, L, L, DOWN, CW, DROP]],
+        'T-SPIN DOUBLE': [[CW, L, L, DOWN, CW, DROP]],
+        'T-SPIN TRIPLE': [[DOWN, L, CW, DROP]],
+        'TWO SQUARES': [
+            [R, R, DROP],
+            [R, R, R, R, DROP]
+        ],
+        'LONG BARS': [
+            [R, DROP],
+            [R, DROP],
+            [R, R, R, R, DROP]
+        ]
+    };
+
+    for (const pack of PUZZLE_PACKS) {
+        // The built-in packs have to pass their own checks.
+        expect(parsePuzzlePack(JSON.stringify(pack))).toEqual(pack);
+
+        for (const puzzle of pack.puzzles) {
+            const game = playPuzzle(puzzle, solutions[puzzle.name]);
+
+            expect(game.finished, puzzle.name).toBe(true);
+        }
+    }
+});
+
+test('Failed Puzzle', () => {
+    const puzzle = getPuzzle('T-SPINS', 'T-SPIN DOUBLE');
+
+    // Dropping the T in without a spin clears lines, but does not solve the puzzle.
+    const events: string[] = [];
+    const game = playPuzzle(puzzle, [[CW, L, L, DROP]], events);
+    expect(game.finished).toBe(false);
+    expect(game.over).toBe(true);
+    expect(events[events.length - 1]).toBe('failed');
+
+    // The last piece cannot be held away.
+    const held = new Game(Menu.Puzzle, null, null, 1, 1234, true, 10, 22, null, puzzle);
+    expect(held.toggleHoldPiece()).toBe(false);
+});
+
+test('Puzzle Pieces', () => {
+    const puzzle = getPuzzle('PERFECT CLEARS', 'LONG BARS');
+    const game = new Game(Menu.Puzzle, null, null, 1, 1234, true, 10, 22, null, puzzle);
+
+    expect(game.currentPiece.name).toBe('I');
+    expect(game.nextPieces.map((p) => p.name)).toEqual(['I', 'O']);
+
+    // The held piece gets played last.
+    game.toggleHoldPiece();
+    game.performAction(DROP);
+    game.step();
+    expect(game.currentPiece.name).toBe('O');
+    game.performAction(DROP);
+    game.step();
+    expect(game.currentPiece.name).toBe('I');
+    expect(game.nextPieces.length).toBe(0);
+    game.performAction(DROP);
+    game.step();
+    expect(game.over).toBe(true);
+
+    expect(getObjectiveText(puzzle)).toBe('PERFECT CLEAR WITH 3 PIECES');
+});
+
+test('Puzzle Packs', () => {
+    const text = JSON.stringify({
+        name: 'MINE',
+        puzzles: [
+            {
+                name: 'ONE',
+                board: ['GGGGGGGGG.'],
+                pieces: 'I',
+                objective: { type: 'lines', lines: 1 }
+            }
+        ]
+    });
+    const pack = parsePuzzlePack(text);
+
+    expect(pack.puzzles[0].hold).toBe(true);
+
+    savePuzzlePack(pack);
+    savePuzzlePack(pack);
+    expect(loadPuzzlePacks()).toEqual([pack]);
+
+    expect(isPuzzleCompleted(pack, pack.puzzles[0])).toBe(false);
+    completePuzzle(pack, pack.puzzles[0]);
+    expect(isPuzzleCompleted(pack, pack.puzzles[0])).toBe(true);
+
+    expect(() => parsePuzzlePack('nope')).toThrow('NOT A PUZZLE PACK');
+    expect(() => parsePuzzlePack('{"name":"A","puzzles":[]}')).toThrow('THE PUZZLE PACK IS EMPTY');
+    expect(() => parsePuzzlePack(text.replace('"I"', '"X"'))).toThrow(
+        'PUZZLE ONE HAS INVALID PIECES'
+    );
+    expect(() => parsePuzzlePack(text.replace('"lines","lines":1', '"tSpin","lines":4'))).toThrow(
+        'PUZZLE ONE HAS AN INVALID OBJECTIVE'
+    );
+
+    localStorage.clear();
+});
@@ -0,0 +1,146 @@
+import { CONFIG } from '@/helpers/config';
+import { Game } from '@/helpers/game';
+import { GravityCurveType } from '@/helpers/gravity';
+import { PieceSetType } from '@/helpers/pieceSets';
+import {
+    createReplay,
+    decodeInputs,
+    encodeInputs,
+    exportReplay,
+    importReplay
+} from '@/helpers/replay';
+import { ReplayPlayer } from '@/helpers/replayPlayer';
+import { RandomizerType } from '@/helpers/rng';
+import { ScoringType } from '@/helpers/scoring';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+test('Encode Inputs', () => {
+    const inputs = [
+        [0, Action.MoveLeft],
+        [31, Action.RotateCW],
+        [31, Action.HardDrop],
+        [2000, Action.Hold]
+    ];
+
+    const encoded = encodeInputs(inputs);
+
+    expect(encoded).toBe('AvFE' + (1969).toString(36) + 'I');
+    expect(decodeInputs(encoded)).toEqual(inputs);
+    expect(decodeInputs('')).toEqual([]);
+});
+
+test('Import Replay', () => {
+    const game = new Game(Menu.Sprint, 40, null, 1, 99);
+    const replay = createReplay(game);
+
+    expect(importReplay(exportReplay(replay))).toEqual(replay);
+
+    expect(() => importReplay('not json')).toThrowError('NOT A REPLAY FILE');
+    expect(() => importReplay('{"version": 99}')).toThrowError('REPLAY IS FROM A NEWER VERSION');
+    expect(() => importReplay(exportReplay({ ...replay, inputs: '12!' }))).toThrowError(
+        'REPLAY FILE IS DAMAGED'
+    );
+
+    // Replays from before the randomizer setting still get their pieces the same way.
+    const { RANDOMIZER, ...oldConfig } = replay.config;
+    expect(RANDOMIZER).toBeDefined();
+    const classic = exportReplay({
+        ...replay,
+        config: { ...oldConfig, MODERN_PIECE_RNG: 'false' }
+    });
+    expect(importReplay(classic).config.RANDOMIZER).toBe(String(RandomizerType.Classic));
+    const modern = exportReplay({ ...replay, config: { ...oldConfig, MODERN_PIECE_RNG: 'true' } });
+    expect(importReplay(modern).config.RANDOMIZER).toBe(String(RandomizerType.Bag7));
+});
+
+test('Play Back Replay', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 2024);
+    game.frozen = false;
+
+    // Playing a couple of pieces with some actions in between.
+    const actions = [
+        Action.MoveLeft,
+        Action.RotateCW,
+        Action.HardDrop,
+        Action.Hold,
+        Action.MoveRight,
+        Action.MoveRight,
+        Action.HardDrop,
+        Action.RotateCCW,
+        Action.SoftDrop,
+        Action.ReleaseSoftDrop,
+        Action.InsertGarbage,
+        Action.HardDrop
+    ];
+
+    for (let i = 0; i < actions.length; i++) {
+        for (let j = 0; j < 7; j++) {
+            game.advanceTick();
+        }
+        game.performAction(actions[i]);
+    }
+
+    for (let i = 0; i < 100; i++) {
+        game.advanceTick();
+    }
+
+    const player = new ReplayPlayer(createReplay(game));
+
+    player.seek(game.frame);
+
+    expect(player.isFinished()).toBe(true);
+    expect(player.game.frame).toBe(game.frame);
+    expect(player.game.score).toBe(game.score);
+    expect(player.game.board.GameBoard).toEqual(game.board.GameBoard);
+    expect(player.game.holdPiece?.name).toBe(game.holdPiece?.name);
+    // The game and its replay take the same time, which is what the records are based on.
+    expect(player.game.timer.currentTime).toBe(game.timer.currentTime);
+    expect(createReplay(game).time).toBe(game.timer.currentTime);
+
+    // Seeking backwards restarts the game.
+    player.seek(10);
+
+    expect(player.game.frame).toBe(10);
+    expect(player.game.score).toBe(0);
+
+    player.restoreConfig();
+});
+
+test('Play Back Replay With The Rules Of The Game', () => {
+    CONFIG.RANDOMIZER.value = RandomizerType.Classic;
+    CONFIG.PIECE_SET.value = PieceSetType.Pentominoes;
+    CONFIG.SCORING.value = ScoringType.NES;
+    CONFIG.GRAVITY_CURVE.value = GravityCurveType.TGM;
+    CONFIG.PIECE_LOCK_TICKS.value = 5;
+    const game = new Game(Menu.Endless, null, null, 1, 77);
+    game.frozen = false;
+
+    // The config gets changed back while the game is still running.
+    CONFIG.RANDOMIZER.value = RandomizerType.Bag7;
+    CONFIG.PIECE_SET.value = PieceSetType.Tetrominoes;
+    CONFIG.SCORING.value = ScoringType.Guideline;
+    CONFIG.GRAVITY_CURVE.value = GravityCurveType.NES;
+    CONFIG.PIECE_LOCK_TICKS.value = 30;
+
+    for (let i = 0; i < 5; i++) {
+        game.performAction(Action.HardDrop);
+        game.advanceTick();
+    }
+
+    const replay = importReplay(exportReplay(createReplay(game)));
+    expect(replay.rules?.pieceSet.name).toBe('PENTOMINOES');
+
+    const player = new ReplayPlayer(replay);
+    player.seek(game.frame);
+
+    expect(player.game.randomizer).toBe(RandomizerType.Classic);
+    expect(player.game.scoring).toBe(ScoringType.NES);
+    expect(player.game.gravityTable).toEqual(game.gravityTable);
+    expect(player.game.lockTicks).toBe(5);
+    expect(player.game.nextPieces.map((p) => p.name)).toEqual(game.nextPieces.map((p) => p.name));
+    expect(player.game.board.GameBoard).toEqual(game.board.GameBoard);
+    expect(player.game.score).toBe(game.score);
+
+    player.restoreConfig();
+});
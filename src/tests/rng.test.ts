@@ -1,9 +1,19 @@
 import { CONFIG } from '@/helpers/config';
-import { getRandomPiece, getRandomPieceClassic, getRandomPieceModern } from '@/helpers/rng';
+import { allPieces } from '@/helpers/pieceData';
+import {
+    DROUGHT_LIMIT,
+    getRandomPiece,
+    getRandomPieceClassic,
+    getRandomPieceModern,
+    parseSeed,
+    Random,
+    RANDOMIZERS,
+    RandomizerType
+} from '@/helpers/rng';
 import { expect, test } from 'vitest';
 
 test('Get Random Piece', () => {
-    if (CONFIG.MODERN_PIECE_RNG.value) {
+    if (RANDOMIZERS[CONFIG.RANDOMIZER.value].bag) {
         expect(getRandomPiece([], 3, true).length).toBe(21);
     } else {
         expect(getRandomPiece([], 3, true).length).toBe(15);
@@ -12,3 +22,184 @@ test('Get Random Piece', () => {
     expect(getRandomPieceModern([], 3, true).length).toBe(21);
     expect(getRandomPieceClassic([]).length).toBe(15);
 });
+
+test('Seeded Random', () => {
+    const random1 = new Random(12345);
+    const random2 = new Random(12345);
+    const random3 = new Random(54321);
+
+    const sequence1 = [random1.next(), random1.next(), random1.next()];
+    const sequence2 = [random2.next(), random2.next(), random2.next()];
+    const sequence3 = [random3.next(), random3.next(), random3.next()];
+
+    expect(sequence1).toEqual(sequence2);
+    expect(sequence1).not.toEqual(sequence3);
+
+    for (let i = 0; i < 100; i++) {
+        const n = random1.nextInt(7);
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThan(7);
+    }
+
+    expect(random2.shuffle([1, 2, 3, 4, 5, 6, 7]).sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+});
+
+test('Seeded Piece Queue', () => {
+    const queue1 = getRandomPieceModern([], 1, false, new Random(42)).map((p) => p.name);
+    const queue2 = getRandomPieceModern([], 1, false, new Random(42)).map((p) => p.name);
+
+    expect(queue1).toEqual(queue2);
+
+    const classic1 = getRandomPieceClassic([], new Random(42)).map((p) => p.name);
+    const classic2 = getRandomPieceClassic([], new Random(42)).map((p) => p.name);
+
+    expect(classic1).toEqual(classic2);
+});
+
+/**
+ * Plays through a lot of pieces with a randomizer, like a game would.
+ */
+const generatePieces = (randomizer: RandomizerType, amount: number, seed: number = 7): string[] => {
+    const random = new Random(seed);
+    const queue = getRandomPiece([], 1, true, random, allPieces, randomizer);
+    const pieces: string[] = [];
+
+    while (pieces.length < amount) {
+        pieces.push(queue.shift()!.name);
+        getRandomPiece(queue, 1, false, random, allPieces, randomizer);
+    }
+
+    return pieces;
+};
+
+/**
+ * How often every piece came up.
+ */
+const countPieces = (pieces: string[]): number[] => {
+    return allPieces.map((p) => pieces.filter((name) => name === p.name).length);
+};
+
+/**
+ * The longest stretch of pieces without a specific piece.
+ */
+const getLongestDrought = (pieces: string[]): number => {
+    let longest = 0;
+
+    for (let i = 0; i < allPieces.length; i++) {
+        let drought = 0;
+        for (let j = 0; j < pieces.length; j++) {
+            drought = pieces[j] === allPieces[i].name ? 0 : drought + 1;
+            longest = Math.max(longest, drought);
+        }
+    }
+
+    return longest;
+};
+
+/**
+ * The most times the same piece came up in a row.
+ */
+const getLongestRepeat = (pieces: string[]): number => {
+    let longest = 1;
+    let repeat = 1;
+
+    for (let i = 1; i < pieces.length; i++) {
+        repeat = pieces[i] === pieces[i - 1] ? repeat + 1 : 1;
+        longest = Math.max(longest, repeat);
+    }
+
+    return longest;
+};
+
+test('Randomizer Distribution', () => {
+    for (let i = 0; i < RANDOMIZERS.length; i++) {
+        const counts = countPieces(generatePieces(i, 7000));
+
+        // Every randomizer hands out every piece about equally often, around 1000 times each.
+        for (let j = 0; j < counts.length; j++) {
+            expect(counts[j]).toBeGreaterThan(850);
+            expect(counts[j]).toBeLessThan(1150);
+        }
+    }
+});
+
+test('Bag Randomizers', () => {
+    // Every bag has every piece in it exactly once.
+    const bag7 = generatePieces(RandomizerType.Bag7, 700);
+    for (let i = 0; i < bag7.length; i += 7) {
+        expect(bag7.slice(i, i + 7).sort()).toEqual(['I', 'J', 'L', 'O', 'S', 'T', 'Z']);
+    }
+    expect(getLongestDrought(bag7)).toBeLessThanOrEqual(12);
+    expect(getLongestRepeat(bag7)).toBeLessThanOrEqual(2);
+
+    // And the 14-bag twice.
+    const bag14 = generatePieces(RandomizerType.Bag14, 1400);
+    for (let i = 0; i < bag14.length; i += 14) {
+        expect(countPieces(bag14.slice(i, i + 14))).toEqual([2, 2, 2, 2, 2, 2, 2]);
+    }
+    expect(getLongestDrought(bag14)).toBeLessThanOrEqual(24);
+
+    // The 7+1 bag has one extra piece on top.
+    const bag8 = generatePieces(RandomizerType.Bag7Plus1, 800);
+    for (let i = 0; i < bag8.length; i += 8) {
+        const counts = countPieces(bag8.slice(i, i + 8));
+        expect(counts.every((c) => c >= 1)).toBe(true);
+        expect(counts.reduce((a, b) => a + b)).toBe(8);
+    }
+    expect(getLongestDrought(bag8)).toBeLessThanOrEqual(14);
+
+    // The first piece never leaves an overhang.
+    for (let seed = 0; seed < 50; seed++) {
+        expect(['S', 'Z', 'O']).not.toContain(generatePieces(RandomizerType.Bag7, 1, seed)[0]);
+    }
+});
+
+test('TGM Randomizer', () => {
+    const pieces = generatePieces(RandomizerType.TGM, 7000);
+
+    // The history makes repeats a lot rarer than with a truly random generator.
+    let repeats = 0;
+    for (let i = 1; i < pieces.length; i++) {
+        if (pieces[i] === pieces[i - 1]) {
+            repeats++;
+        }
+    }
+    expect(repeats).toBeLessThan(100);
+    expect(getLongestDrought(pieces)).toBeLessThan(40);
+
+    for (let seed = 0; seed < 50; seed++) {
+        expect(['S', 'Z', 'O']).not.toContain(generatePieces(RandomizerType.TGM, 1, seed)[0]);
+    }
+});
+
+test('NES Randomizer', () => {
+    const pieces = generatePieces(RandomizerType.NES, 7000);
+
+    // A repeat needs the same piece twice in a row, so they come up around 1 in 28 times instead of 1 in 7.
+    let repeats = 0;
+    for (let i = 1; i < pieces.length; i++) {
+        if (pieces[i] === pieces[i - 1]) {
+            repeats++;
+        }
+    }
+    expect(repeats).toBeGreaterThan(150);
+    expect(repeats).toBeLessThan(350);
+});
+
+test('Drought Protection', () => {
+    const classic = generatePieces(RandomizerType.Classic, 7000);
+    const protectedPieces = generatePieces(RandomizerType.Drought, 7000);
+
+    // Truly random pieces go missing for a long time every once in a while.
+    expect(getLongestDrought(classic)).toBeGreaterThan(DROUGHT_LIMIT * 2);
+    // With drought protection, no piece stays away for longer than the limit.
+    expect(getLongestDrought(protectedPieces)).toBeLessThanOrEqual(DROUGHT_LIMIT);
+});
+
+test('Parse Seed', () => {
+    expect(parseSeed('')).toBe(null);
+    expect(parseSeed('   ')).toBe(null);
+    expect(parseSeed('1234')).toBe(1234);
+    expect(parseSeed('FRIDAY RACE')).toBe(parseSeed('FRIDAY RACE'));
+    expect(parseSeed('FRIDAY RACE')).not.toBe(parseSeed('MONDAY RACE'));
+});
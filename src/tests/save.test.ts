@@ -0,0 +1,96 @@
+import { CONFIG } from '@/helpers/config';
+import { Game } from '@/helpers/game';
+import { RandomizerType } from '@/helpers/rng';
+import {
+    deserializeGame,
+    getSuspendedMode,
+    loadSuspendedGame,
+    serializeGame,
+    suspendGame
+} from '@/helpers/save';
+import { Action, Menu } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const playSomeMoves = (game: Game, moves: number): void => {
+    const actions = [
+        Action.MoveLeft,
+        Action.RotateCW,
+        Action.HardDrop,
+        Action.Hold,
+        Action.MoveRight
+    ];
+
+    for (let i = 0; i < moves; i++) {
+        game.step([actions[i % actions.length]]);
+        game.step();
+    }
+};
+
+test('Serialize Game', () => {
+    const game = new Game(Menu.Marathon, 150, null, 3, 2024, true);
+    game.frozen = false;
+
+    playSomeMoves(game, 20);
+
+    const continued = deserializeGame(serializeGame(game), true);
+    continued.start();
+
+    expect(continued.board.GameBoard).toEqual(game.board.GameBoard);
+    expect(continued.currentPiece.name).toBe(game.currentPiece.name);
+    expect(continued.nextPieces.map((p) => p.name)).toEqual(game.nextPieces.map((p) => p.name));
+    expect(continued.holdPiece?.name).toBe(game.holdPiece?.name);
+    expect(continued.score).toBe(game.score);
+    expect(continued.level).toBe(game.level);
+    expect(continued.frame).toBe(game.frame);
+    expect(continued.timer.currentTime).toBe(game.timer.currentTime);
+
+    // Both games keep playing out exactly the same, including the random pieces.
+    playSomeMoves(game, 20);
+    playSomeMoves(continued, 20);
+
+    expect(continued.board.GameBoard).toEqual(game.board.GameBoard);
+    expect(continued.nextPieces.map((p) => p.name)).toEqual(game.nextPieces.map((p) => p.name));
+    expect(continued.score).toBe(game.score);
+    expect(continued.inputLog).toEqual(game.inputLog);
+});
+
+test('Suspend Game', () => {
+    const game = new Game(Menu.Endless, null, null, 1, 99, true);
+    game.frozen = false;
+    playSomeMoves(game, 5);
+
+    suspendGame(game);
+    expect(getSuspendedMode()).toBe(Menu.Endless);
+
+    const continued = loadSuspendedGame();
+    expect(continued?.score).toBe(game.score);
+
+    // A suspended game can only be continued once.
+    expect(getSuspendedMode()).toBe(null);
+    expect(loadSuspendedGame()).toBe(null);
+
+    localStorage.setItem('suspended-game', '{ broken');
+    expect(loadSuspendedGame()).toBe(null);
+
+    // The game keeps the settings it was started with, even if the config changes before it gets continued.
+    suspendGame(game);
+    CONFIG.RANDOMIZER.value = RandomizerType.Classic;
+    CONFIG.PIECE_BAG_AMOUNT.value = 3;
+    CONFIG.PIECE_LOCK_TICKS.value = 5;
+    CONFIG.LINE_CLEAR_DELAY.value = 0;
+    const changed = loadSuspendedGame()!;
+    CONFIG.RANDOMIZER.value = RandomizerType.Bag7;
+    CONFIG.PIECE_BAG_AMOUNT.value = 1;
+    CONFIG.PIECE_LOCK_TICKS.value = 30;
+    CONFIG.LINE_CLEAR_DELAY.value = 300;
+
+    expect(changed.randomizer).toBe(game.randomizer);
+    expect(changed.pieceBagAmount).toBe(game.pieceBagAmount);
+    expect(changed.lockTicks).toBe(game.lockTicks);
+    expect(changed.lineClearDelay).toBe(game.lineClearDelay);
+
+    changed.frozen = false;
+    playSomeMoves(game, 30);
+    playSomeMoves(changed, 30);
+    expect(changed.nextPieces.map((p) => p.name)).toEqual(game.nextPieces.map((p) => p.name));
+});
@@ -0,0 +1,99 @@
+import { getHighScore, setHighScore } from '@/helpers/score';
+import { getScoringRuleset, SCORING_RULESETS, ScoringType } from '@/helpers/scoring';
+import { Menu, TSpin } from '@/helpers/types';
+import { expect, test } from 'vitest';
+
+const clear = (
+    count: number,
+    level = 1,
+    tSpin = TSpin.None,
+    b2b = false,
+    combo = 0,
+    comboLines = count,
+    perfectClear = false
+) => {
+    return { count, tSpin, b2b, combo, perfectClear, level, comboLines };
+};
+
+test('Guideline Scoring', () => {
+    const guideline = SCORING_RULESETS[ScoringType.Guideline];
+
+    expect(guideline.getClearScore(clear(1))).toBe(100);
+    expect(guideline.getClearScore(clear(4, 2))).toBe(1600);
+    expect(guideline.getClearScore(clear(2, 1, TSpin.Full))).toBe(1200);
+
+    // Back-to-back clears get 1.5 times the points, combos 50 per combo.
+    expect(guideline.getClearScore(clear(4, 1, TSpin.None, true))).toBe(1200);
+    expect(guideline.getClearScore(clear(1, 2, TSpin.None, false, 3))).toBe(500);
+
+    // A back-to-back Tetris perfect clear has its own bonus.
+    expect(guideline.getClearScore(clear(4, 1, TSpin.None, false, 0, 4, true))).toBe(2000);
+    expect(guideline.getClearScore(clear(4, 2, TSpin.None, true, 0, 4, true))).toBe(6400);
+
+    expect(guideline.getDropScore(5, false, 1)).toBe(5);
+    expect(guideline.getDropScore(5, true, 1)).toBe(10);
+});
+
+test('NES Scoring', () => {
+    const nes = SCORING_RULESETS[ScoringType.NES];
+
+    expect(nes.getClearScore(clear(1))).toBe(40);
+    expect(nes.getClearScore(clear(2))).toBe(100);
+    expect(nes.getClearScore(clear(3))).toBe(300);
+    expect(nes.getClearScore(clear(4, 10))).toBe(12000);
+
+    // There are no bonuses.
+    expect(nes.getClearScore(clear(0, 5, TSpin.Full))).toBe(0);
+    expect(nes.getClearScore(clear(2, 1, TSpin.Full, true, 4))).toBe(100);
+
+    expect(nes.getDropScore(5, false, 1)).toBe(5);
+    expect(nes.getDropScore(5, true, 1)).toBe(0);
+});
+
+test('TGM Scoring', () => {
+    const tgm = SCORING_RULESETS[ScoringType.TGM];
+
+    expect(tgm.getClearScore(clear(1))).toBe(1);
+    expect(tgm.getClearScore(clear(4, 1))).toBe(8);
+    expect(tgm.getClearScore(clear(0, 1, TSpin.Full))).toBe(0);
+
+    // A triple after a double has a combo of 3.
+    expect(tgm.getClearScore(clear(3, 5, TSpin.None, false, 1, 5))).toBe(2 * 3 * 3);
+
+    // Singles do not grow the combo.
+    expect(tgm.getClearScore(clear(1, 3, TSpin.None, false, 5, 6))).toBe(1);
+
+    // A perfect clear quadruples the points.
+    expect(tgm.getClearScore(clear(4, 1, TSpin.None, false, 0, 4, true))).toBe(32);
+});
+
+test('Attack Scoring', () => {
+    const attack = SCORING_RULESETS[ScoringType.Attack];
+
+    expect(attack.getClearScore(clear(1))).toBe(0);
+    expect(attack.getClearScore(clear(4))).toBe(4);
+    expect(attack.getClearScore(clear(2, 1, TSpin.Full, true))).toBe(5);
+    expect(attack.getDropScore(20, true, 1)).toBe(0);
+});
+
+test('Get Scoring Ruleset', () => {
+    expect(getScoringRuleset(ScoringType.NES).name).toBe('NES');
+    expect(getScoringRuleset(99)).toBe(SCORING_RULESETS[ScoringType.Guideline]);
+});
+
+test('High Scores Per Ruleset', () => {
+    expect(setHighScore(Menu.Endless, 5000, 1000, true, ScoringType.Guideline)).toBe(true);
+    expect(setHighScore(Menu.Endless, 100, 1000, true, ScoringType.NES)).toBe(true);
+
+    // The guideline records keep their keys.
+    expect(localStorage.getItem(`highscore-${Menu.Endless}`)).toBe('5000');
+    expect(getHighScore(Menu.Endless, ScoringType.Guideline)).toBe('5000 / 00:01.000');
+    expect(getHighScore(Menu.Endless, ScoringType.NES)).toBe('100 / 00:01.000');
+    expect(getHighScore(Menu.Endless, ScoringType.TGM)).toBe('0 / 00:00.000');
+
+    // The score of one ruleset is never compared with another.
+    expect(setHighScore(Menu.Endless, 200, 1000, true, ScoringType.NES)).toBe(true);
+    expect(setHighScore(Menu.Endless, 300, 1000, true, ScoringType.Guideline)).toBe(false);
+
+    localStorage.clear();
+});
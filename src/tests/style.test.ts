@@ -1,5 +1,14 @@
+import { CONFIG } from '@/helpers/config';
 import { Game } from '@/helpers/game';
-import { getColorClass, getHeldPieceColor, getGlow } from '@/helpers/style';
+import { PieceSetType } from '@/helpers/pieceSets';
+import {
+    getBlockSize,
+    getColorClass,
+    getHeldPieceColor,
+    getGlow,
+    getPieceClass
+} from '@/helpers/style';
+import { Menu } from '@/helpers/types';
 import { expect, test } from 'vitest';
 
 test('Get Color Class', () => {
@@ -43,3 +52,37 @@ test('Is in Danger', () => {
 
     expect(getGlow(game)).toBe('blue-glow ');
 });
+
+test('Hint Overlay', () => {
+    const game = new Game(Menu.Versus);
+    game.hint = { piece: 'T', coordinates: [[21, 0]], hold: false };
+
+    expect(getColorClass(game, 0, 21, 0)).toBe('t block hint');
+    expect(getColorClass(game, 0, 21, 1)).toBe('empty block');
+});
+
+test('Get Block Size', () => {
+    expect(getBlockSize(new Game())).toBe(30);
+    expect(getBlockSize(new Game(Menu.Endless, null, null, 1, 1, true, 10, 44))).toBe(15);
+    expect(getBlockSize(new Game(Menu.Endless, null, null, 1, 1, true, 40, 22))).toBe(15);
+});
+
+test('Custom Piece Colors', () => {
+    CONFIG.PIECE_SET.value = PieceSetType.Pentominoes;
+    const game = new Game();
+    CONFIG.PIECE_SET.value = PieceSetType.Tetrominoes;
+
+    expect(getPieceClass(7)).toBe('t');
+    expect(getPieceClass(20)).toBe('custom-20');
+    expect(getColorClass(game, 20, 0, 0)).toBe('custom-20 block');
+
+    // The colors get added to the page.
+    const style = document.getElementById('piece-colors')!;
+    expect(style.textContent).toContain('.custom-16 { outline-color: #e0a030; }');
+
+    // The shadow takes the color of the current piece.
+    const shadow = game.shadowPiece[0];
+    expect(getColorClass(game, 0, shadow[0], shadow[1])).toBe(
+        `custom-${game.currentPiece.color} block transparent`
+    );
+});